@@ -0,0 +1,79 @@
+import { baseCompile as compile } from '../src'
+
+function compileSSR(template: string) {
+  return compile(template, {
+    ssr: true,
+    isVoidTag: tag => tag === 'img' || tag === 'input'
+  }).code
+}
+
+describe('compiler: SSR codegen', () => {
+  test('static elements are concatenated into a single push', () => {
+    const code = compileSSR(
+      `<div id="foo" class="a &quot;b&quot;"><span>hello</span><img src="x"></div>`
+    )
+    expect(code).toMatch(
+      `_push(\`<div id="foo" class="a &quot;b&quot;"><span>hello</span><img src="x"></div>\`)`
+    )
+    expect(code).not.toMatch(`createVNode`)
+    expect(code).toMatchSnapshot()
+  })
+
+  test('text and interpolation', () => {
+    const code = compileSSR(`<div>a &lt; {{ foo }} \` \${bar} \\</div>`)
+    expect(code).toMatch(
+      `_push(\`<div>a &lt; \${ssrInterpolate(_ctx.foo)} \\\` \\\${bar} \\\\</div>\`)`
+    )
+    expect(code).toMatch(
+      `const { ssrInterpolate } = require("@vue/server-renderer")`
+    )
+    expect(code).toMatchSnapshot()
+  })
+
+  test('dynamic attrs', () => {
+    const code = compileSSR(`<div id="foo" :class="cls" @click="onClick"/>`)
+    expect(code).toMatch(`ssrRenderAttrs({`)
+    expect(code).toMatch(`"div")}></div>`)
+    expect(code).toMatchSnapshot()
+  })
+
+  test('v-if', () => {
+    const code = compileSSR(
+      `<div v-if="foo">foo</div><template v-else-if="bar">a{{ b }}</template>`
+    )
+    expect(code).toMatch(`if (_ctx.foo) {`)
+    expect(code).toMatch(`} else if (_ctx.bar) {`)
+    expect(code).toMatchSnapshot()
+  })
+
+  test('v-for', () => {
+    const code = compileSSR(
+      `<ul><li v-for="(item, i) in list">{{ i }}: {{ item }}</li></ul>`
+    )
+    expect(code).toMatch(`renderList(_ctx.list, (item, i) => {`)
+    expect(code).toMatchSnapshot()
+  })
+
+  test('components and slots', () => {
+    const code = compileSSR(
+      `<div><Comp :msg="msg"><span>{{ foo }}</span></Comp><slot/></div>`
+    )
+    expect(code).toMatch(`const _component_Comp = resolveComponent("Comp")`)
+    expect(code).toMatch(`ssrRenderVNode(_push, createVNode(_component_Comp`)
+    expect(code).toMatch(`ssrRenderVNode(_push, renderSlot(_ctx.$slots`)
+    expect(code).toMatchSnapshot()
+  })
+
+  test('module mode', () => {
+    const { code } = compile(`<div>{{ foo }}<Comp/></div>`, {
+      ssr: true,
+      mode: 'module'
+    })
+    expect(code).toMatch(
+      `import { resolveComponent, createVNode } from "vue"\n` +
+        `import { ssrInterpolate, ssrRenderVNode } from "@vue/server-renderer"`
+    )
+    expect(code).toMatch(`export function ssrRender(_ctx, _push, _parent) {`)
+    expect(code).toMatchSnapshot()
+  })
+})
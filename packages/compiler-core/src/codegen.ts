@@ -27,7 +27,7 @@ import {
   loadDep,
   toValidAssetId
 } from './utils'
-import { isString, isArray, isSymbol } from '@vue/shared'
+import { isString, isArray, isSymbol, NO } from '@vue/shared'
 import {
   helperNameMap,
   TO_STRING,
@@ -37,6 +37,7 @@ import {
   SET_BLOCK_TRACKING,
   CREATE_COMMENT
 } from './runtimeHelpers'
+import { generateSSR } from './ssrCodegen'
 
 type CodegenNode = TemplateChildNode | JSChildNode
 
@@ -59,6 +60,15 @@ export interface CodegenOptions {
   // Filename for source map generation.
   // Default: `template.vue.html`
   filename?: string
+  // Generate an SSR render function that pushes strings into a render buffer
+  // instead of returning a vnode tree. Only dynamic bindings, components and
+  // slots are left as runtime calls. Source maps are not supported in this
+  // mode.
+  // Default: false
+  ssr?: boolean
+  // Used in SSR mode to avoid emitting closing tags for void elements.
+  // e.g. img, br, hr
+  isVoidTag?: (tag: string) => boolean
 }
 
 export interface CodegenResult {
@@ -89,7 +99,9 @@ function createCodegenContext(
     mode = 'function',
     prefixIdentifiers = mode === 'module',
     sourceMap = false,
-    filename = `template.vue.html`
+    filename = `template.vue.html`,
+    ssr = false,
+    isVoidTag = NO
   }: CodegenOptions
 ): CodegenContext {
   const context: CodegenContext = {
@@ -97,6 +109,8 @@ function createCodegenContext(
     prefixIdentifiers,
     sourceMap,
     filename,
+    ssr,
+    isVoidTag,
     source: ast.loc.source,
     code: ``,
     column: 1,
@@ -106,7 +120,7 @@ function createCodegenContext(
 
     // lazy require source-map implementation, only in non-browser builds!
     map:
-      __BROWSER__ || !sourceMap
+      __BROWSER__ || !sourceMap || ssr
         ? undefined
         : new (loadDep('source-map')).SourceMapGenerator(),
 
@@ -183,6 +197,9 @@ export function generate(
   options: CodegenOptions = {}
 ): CodegenResult {
   const context = createCodegenContext(ast, options)
+  if (!__BROWSER__ && context.ssr) {
+    return generateSSR(ast, context)
+  }
   const {
     mode,
     push,
@@ -304,7 +321,7 @@ export function generate(
   }
 }
 
-function genAssets(
+export function genAssets(
   assets: string[],
   type: 'component' | 'directive',
   context: CodegenContext
@@ -321,7 +338,7 @@ function genAssets(
   }
 }
 
-function genHoists(hoists: JSChildNode[], context: CodegenContext) {
+export function genHoists(hoists: JSChildNode[], context: CodegenContext) {
   if (!hoists.length) {
     return
   }
@@ -383,7 +400,10 @@ function genNodeList(
   }
 }
 
-function genNode(node: CodegenNode | symbol | string, context: CodegenContext) {
+export function genNode(
+  node: CodegenNode | symbol | string,
+  context: CodegenContext
+) {
   if (isString(node)) {
     context.push(node)
     return
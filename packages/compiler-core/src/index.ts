@@ -31,18 +31,26 @@ export function baseCompile(
       onError(createCompilerError(ErrorCodes.X_PREFIX_ID_NOT_SUPPORTED))
     } else if (options.mode === 'module') {
       onError(createCompilerError(ErrorCodes.X_MODULE_MODE_NOT_SUPPORTED))
+    } else if (options.ssr) {
+      onError(createCompilerError(ErrorCodes.X_SSR_NOT_SUPPORTED))
     }
   }
 
   const ast = isString(template) ? parse(template, options) : template
 
+  // SSR render functions receive the render context as an argument, so
+  // identifiers must always be prefixed.
   const prefixIdentifiers =
     !__BROWSER__ &&
-    (options.prefixIdentifiers === true || options.mode === 'module')
+    (options.prefixIdentifiers === true ||
+      options.mode === 'module' ||
+      options.ssr === true)
 
   transform(ast, {
     ...options,
     prefixIdentifiers,
+    // static trees and handlers are never patched on the server
+    ...(options.ssr ? { hoistStatic: false, cacheHandlers: false } : null),
     nodeTransforms: [
       transformOnce,
       transformIf,
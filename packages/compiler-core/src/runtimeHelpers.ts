@@ -21,6 +21,11 @@ export const TO_HANDLERS = Symbol(__DEV__ ? `toHandlers` : ``)
 export const CAMELIZE = Symbol(__DEV__ ? `camelize` : ``)
 export const SET_BLOCK_TRACKING = Symbol(__DEV__ ? `setBlockTracking` : ``)
 
+// SSR helpers, imported from '@vue/server-renderer' instead of 'vue'
+export const SSR_INTERPOLATE = Symbol(__DEV__ ? `ssrInterpolate` : ``)
+export const SSR_RENDER_ATTRS = Symbol(__DEV__ ? `ssrRenderAttrs` : ``)
+export const SSR_RENDER_VNODE = Symbol(__DEV__ ? `ssrRenderVNode` : ``)
+
 // Name mapping for runtime helpers that need to be imported from 'vue' in
 // generated code. Make sure these are correctly exported in the runtime!
 // Using `any` here because TS doesn't allow symbols as index type.
@@ -44,9 +49,18 @@ export const helperNameMap: any = {
   [MERGE_PROPS]: `mergeProps`,
   [TO_HANDLERS]: `toHandlers`,
   [CAMELIZE]: `camelize`,
-  [SET_BLOCK_TRACKING]: `setBlockTracking`
+  [SET_BLOCK_TRACKING]: `setBlockTracking`,
+  [SSR_INTERPOLATE]: `ssrInterpolate`,
+  [SSR_RENDER_ATTRS]: `ssrRenderAttrs`,
+  [SSR_RENDER_VNODE]: `ssrRenderVNode`
 }
 
+export const ssrHelpers = new Set<symbol>([
+  SSR_INTERPOLATE,
+  SSR_RENDER_ATTRS,
+  SSR_RENDER_VNODE
+])
+
 export function registerRuntimeHelpers(helpers: any) {
   Object.getOwnPropertySymbols(helpers).forEach(s => {
     helperNameMap[s] = helpers[s]
@@ -0,0 +1,427 @@
+// SSR code generation.
+//
+// Instead of returning a vnode tree, the generated `ssrRender` function pushes
+// HTML strings into the render buffer provided by @vue/server-renderer.
+// Static parts of the template are concatenated into string literals at
+// compile time; only dynamic bindings, components and slots are left as
+// runtime calls. The generator walks the template AST directly and reuses the
+// codegen nodes produced by the transform pipeline for the dynamic parts.
+import {
+  RootNode,
+  TemplateChildNode,
+  NodeTypes,
+  ElementTypes,
+  ElementNode,
+  IfNode,
+  ForNode,
+  JSChildNode,
+  CallExpression,
+  ExpressionNode,
+  InterpolationNode,
+  CompoundExpressionNode,
+  TextNode
+} from './ast'
+import {
+  CodegenContext,
+  CodegenResult,
+  genNode,
+  genAssets,
+  genHoists
+} from './codegen'
+import {
+  ssrHelpers,
+  FRAGMENT,
+  MERGE_PROPS,
+  RENDER_LIST,
+  TO_STRING,
+  WITH_DIRECTIVES,
+  SSR_INTERPOLATE,
+  SSR_RENDER_ATTRS,
+  SSR_RENDER_VNODE
+} from './runtimeHelpers'
+import { escapeHtml, isArray, isReservedProp } from '@vue/shared'
+
+// A template literal part is either a static string or a generator for a
+// dynamic JavaScript expression that is interpolated with `${}`.
+type SSRTemplatePart = string | (() => void)
+
+interface SSRCodegenState {
+  context: CodegenContext
+  parts: SSRTemplatePart[]
+}
+
+// fragment boundaries, see renderVNode() in @vue/server-renderer.
+const fragmentStart = `<!--[-->`
+const fragmentEnd = `<!--]-->`
+
+export function generateSSR(
+  ast: RootNode,
+  context: CodegenContext
+): CodegenResult {
+  // the body is generated first so that only the helpers it actually uses are
+  // imported. Static elements no longer need createVNode() etc.
+  const usedHelpers = new Set<symbol>()
+  const helper = context.helper
+  context.helper = key => {
+    usedHelpers.add(key)
+    return helper(key)
+  }
+
+  const { push, indent, deindent, newline } = context
+  // static trees are not hoisted in SSR mode, but transforms may still hoist
+  // constant expressions, e.g. parsed static styles.
+  genHoists(ast.hoists, context)
+  push(
+    `${
+      context.mode === 'module' ? `export ` : `return `
+    }function ssrRender(_ctx, _push, _parent) {`
+  )
+  indent()
+  if (ast.components.length) {
+    genAssets(ast.components, 'component', context)
+  }
+  if (ast.directives.length) {
+    genAssets(ast.directives, 'directive', context)
+  }
+  if (ast.components.length || ast.directives.length) {
+    newline()
+  }
+  const state: SSRCodegenState = { context, parts: [] }
+  processChildren(ast.children, state, ast.children.length > 1)
+  flushParts(state)
+  deindent()
+  push(`}`)
+
+  const vueHelpers: string[] = []
+  const serverHelpers: string[] = []
+  usedHelpers.forEach(key => {
+    ;(ssrHelpers.has(key) ? serverHelpers : vueHelpers).push(helper(key))
+  })
+  let preamble = ``
+  if (vueHelpers.length) {
+    preamble += genImport(vueHelpers, `vue`, context)
+  }
+  if (serverHelpers.length) {
+    preamble += genImport(serverHelpers, `@vue/server-renderer`, context)
+  }
+  context.code = (preamble ? preamble + `\n` : ``) + context.code
+  return {
+    ast,
+    code: context.code
+  }
+}
+
+function genImport(
+  helpers: string[],
+  source: string,
+  { mode }: CodegenContext
+): string {
+  return mode === 'module'
+    ? `import { ${helpers.join(', ')} } from ${JSON.stringify(source)}\n`
+    : `const { ${helpers.join(', ')} } = require(${JSON.stringify(source)})\n`
+}
+
+function pushString(state: SSRCodegenState, str: string) {
+  state.parts.push(str)
+}
+
+function pushExpression(state: SSRCodegenState, gen: () => void) {
+  state.parts.push(gen)
+}
+
+// start a new statement on its own line
+function newStatement({ context }: SSRCodegenState) {
+  if (!/\n *$/.test(context.code)) {
+    context.newline()
+  }
+}
+
+// write all pending template parts as a single `_push()` call. Must be called
+// before generating any statement.
+function flushParts(state: SSRCodegenState) {
+  const { context, parts } = state
+  if (!parts.length) {
+    return
+  }
+  newStatement(state)
+  context.push(`_push(\``)
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i]
+    if (typeof part === 'string') {
+      context.push(part.replace(/[`$\\]/g, '\\$&'))
+    } else {
+      context.push('${')
+      part()
+      context.push('}')
+    }
+  }
+  context.push(`\`)`)
+  state.parts = []
+}
+
+function processChildren(
+  children: TemplateChildNode[],
+  state: SSRCodegenState,
+  asFragment: boolean
+) {
+  if (asFragment) {
+    pushString(state, fragmentStart)
+  }
+  for (let i = 0; i < children.length; i++) {
+    processNode(children[i], state)
+  }
+  if (asFragment) {
+    pushString(state, fragmentEnd)
+  }
+}
+
+function processNode(node: TemplateChildNode, state: SSRCodegenState) {
+  switch (node.type) {
+    case NodeTypes.ELEMENT:
+      if (node.tagType === ElementTypes.ELEMENT) {
+        processElement(node, state)
+      } else if (node.tagType === ElementTypes.TEMPLATE) {
+        processChildren(node.children, state, false)
+      } else {
+        // components, slot outlets, portals and suspense are rendered by the
+        // server renderer at runtime.
+        processVNode(node.codegenNode!, state)
+      }
+      break
+    case NodeTypes.TEXT:
+    case NodeTypes.INTERPOLATION:
+    case NodeTypes.COMPOUND_EXPRESSION:
+      processText(node, state)
+      break
+    case NodeTypes.TEXT_CALL:
+      processText(node.content, state)
+      break
+    case NodeTypes.COMMENT:
+      // comments are only rendered as vnodes in dev
+      if (__DEV__) {
+        pushString(state, `<!--${node.content}-->`)
+      }
+      break
+    case NodeTypes.IF:
+      processIf(node, state)
+      break
+    case NodeTypes.FOR:
+      processFor(node, state)
+      break
+  }
+}
+
+function processText(
+  node: TextNode | InterpolationNode | CompoundExpressionNode,
+  state: SSRCodegenState
+) {
+  if (node.type === NodeTypes.TEXT) {
+    pushString(state, escapeHtml(node.content))
+  } else if (node.type === NodeTypes.INTERPOLATION) {
+    pushInterpolation(node.content, state)
+  } else {
+    // text & interpolations merged by transformText
+    for (let i = 0; i < node.children.length; i++) {
+      const child = node.children[i]
+      if (
+        typeof child === 'object' &&
+        child.type !== NodeTypes.SIMPLE_EXPRESSION
+      ) {
+        processText(child as TextNode | InterpolationNode, state)
+      }
+    }
+  }
+}
+
+function pushInterpolation(exp: ExpressionNode, state: SSRCodegenState) {
+  const { context } = state
+  pushExpression(state, () => {
+    context.push(`${context.helper(SSR_INTERPOLATE)}(`)
+    genNode(exp, context)
+    context.push(`)`)
+  })
+}
+
+function processElement(node: ElementNode, state: SSRCodegenState) {
+  const { context } = state
+  const { tag, props } = node
+  pushString(state, `<${tag}`)
+  let contentDir: { name: string; exp: ExpressionNode } | undefined
+  let showExp: ExpressionNode | undefined
+  let hasDynamicAttrs = false
+  for (let i = 0; i < props.length; i++) {
+    const p = props[i]
+    if (p.type === NodeTypes.DIRECTIVE) {
+      if (p.name === 'bind' || p.name === 'model') {
+        hasDynamicAttrs = true
+      } else if ((p.name === 'html' || p.name === 'text') && p.exp) {
+        contentDir = { name: p.name, exp: p.exp }
+      } else if (p.name === 'show' && p.exp) {
+        showExp = p.exp
+      }
+    }
+  }
+
+  if (hasDynamicAttrs || showExp) {
+    // the props object (including merged static attrs) is already built by
+    // transformElement, render it at runtime.
+    const propsExp = getVNodeCall(node.codegenNode!).arguments[1]
+    const hasProps = propsExp && propsExp !== `null`
+    if (hasProps || showExp) {
+      pushExpression(state, () => {
+        context.push(`${context.helper(SSR_RENDER_ATTRS)}(`)
+        if (showExp) {
+          // a falsy v-show hides the element with an inline style, merged
+          // with the style binding if any.
+          if (hasProps) {
+            context.push(`${context.helper(MERGE_PROPS)}(`)
+            genNode(propsExp as JSChildNode, context)
+            context.push(`, `)
+          }
+          context.push(`(`)
+          genNode(showExp, context)
+          context.push(`) ? null : { style: { display: "none" } }`)
+          if (hasProps) {
+            context.push(`)`)
+          }
+        } else {
+          genNode(propsExp as JSChildNode, context)
+        }
+        context.push(`, ${JSON.stringify(tag)})`)
+      })
+    }
+  } else {
+    for (let i = 0; i < props.length; i++) {
+      const p = props[i]
+      if (p.type === NodeTypes.ATTRIBUTE && !isReservedProp(p.name)) {
+        pushString(
+          state,
+          p.value ? ` ${p.name}="${escapeHtml(p.value.content)}"` : ` ${p.name}`
+        )
+      }
+    }
+  }
+  pushString(state, `>`)
+
+  if (context.isVoidTag(tag)) {
+    return
+  }
+  if (contentDir) {
+    const { name, exp } = contentDir
+    if (name === 'html') {
+      pushExpression(state, () => {
+        context.push(`${context.helper(TO_STRING)}(`)
+        genNode(exp, context)
+        context.push(`)`)
+      })
+    } else {
+      pushInterpolation(exp, state)
+    }
+  } else {
+    processChildren(node.children, state, false)
+  }
+  pushString(state, `</${tag}>`)
+}
+
+function processVNode(codegenNode: JSChildNode, state: SSRCodegenState) {
+  const { context } = state
+  flushParts(state)
+  newStatement(state)
+  context.push(`${context.helper(SSR_RENDER_VNODE)}(_push, `)
+  // v-once has no effect during SSR
+  genNode(
+    codegenNode.type === NodeTypes.JS_CACHE_EXPRESSION
+      ? codegenNode.value
+      : codegenNode,
+    context
+  )
+  context.push(`, _parent)`)
+}
+
+function processIf(node: IfNode, state: SSRCodegenState) {
+  const { context } = state
+  const { branches } = node
+  flushParts(state)
+  newStatement(state)
+  for (let i = 0; i < branches.length; i++) {
+    const { condition, children } = branches[i]
+    if (condition) {
+      context.push(i === 0 ? `if (` : ` else if (`)
+      genNode(condition, context)
+      context.push(`) {`)
+    } else {
+      context.push(` else {`)
+    }
+    context.indent()
+    // same as the client, a branch is wrapped in a fragment unless it
+    // consists of a single element or a v-for fragment.
+    const child = children[0]
+    processChildren(
+      children,
+      state,
+      children.length !== 1 ||
+        (child.type !== NodeTypes.ELEMENT && child.type !== NodeTypes.FOR)
+    )
+    flushParts(state)
+    context.deindent()
+    context.push(`}`)
+  }
+  if (branches[branches.length - 1].condition) {
+    // no v-else: the client renders a comment placeholder
+    context.push(` else {`)
+    context.indent()
+    pushString(state, __DEV__ ? `<!--v-if-->` : `<!---->`)
+    flushParts(state)
+    context.deindent()
+    context.push(`}`)
+  }
+}
+
+function processFor(node: ForNode, state: SSRCodegenState) {
+  const { context } = state
+  const renderExp = node.codegenNode.expressions[1].arguments[2]
+  const [source, iterator] = renderExp.arguments
+  pushString(state, fragmentStart)
+  flushParts(state)
+  newStatement(state)
+  context.push(`${context.helper(RENDER_LIST)}(`)
+  genNode(source, context)
+  context.push(`, (`)
+  const { params } = iterator
+  if (isArray(params)) {
+    for (let i = 0; i < params.length; i++) {
+      genNode(params[i], context)
+      if (i < params.length - 1) {
+        context.push(`, `)
+      }
+    }
+  } else if (params) {
+    genNode(params, context)
+  }
+  context.push(`) => {`)
+  context.indent()
+  // <template v-for> renders a fragment for each item
+  const returns = iterator.returns as JSChildNode
+  const isFragmentItem =
+    returns.type === NodeTypes.JS_SEQUENCE_EXPRESSION &&
+    (returns.expressions[1] as CallExpression).arguments[0] === FRAGMENT
+  processChildren(node.children, state, isFragmentItem)
+  flushParts(state)
+  context.deindent()
+  context.push(`})`)
+  pushString(state, fragmentEnd)
+}
+
+// locate the createVNode() / createBlock() call of an element
+function getVNodeCall(node: JSChildNode): CallExpression {
+  if (node.type === NodeTypes.JS_CACHE_EXPRESSION) {
+    node = node.value
+  }
+  if (node.type === NodeTypes.JS_SEQUENCE_EXPRESSION) {
+    node = node.expressions[node.expressions.length - 1]
+  }
+  const call = node as CallExpression
+  return call.callee === WITH_DIRECTIVES
+    ? (call.arguments[0] as CallExpression)
+    : call
+}
@@ -0,0 +1,38 @@
+import { parse, transform, CompilerOptions, generate } from '@vue/compiler-core'
+import { transformShow } from '../../src/transforms/vShow'
+import { transformElement } from '../../../compiler-core/src/transforms/transformElement'
+import { DOMErrorCodes } from '../../src/errors'
+import { V_SHOW } from '../../src/runtimeHelpers'
+
+function transformWithShow(template: string, options: CompilerOptions = {}) {
+  const ast = parse(template)
+  transform(ast, {
+    nodeTransforms: [transformElement],
+    directiveTransforms: {
+      show: transformShow
+    },
+    ...options
+  })
+  return ast
+}
+
+describe('compiler: v-show transform', () => {
+  test('simple expression', () => {
+    const root = transformWithShow(`<div v-show="a"/>`)
+
+    expect(root.helpers).toContain(V_SHOW)
+    expect(generate(root).code).toMatchSnapshot()
+  })
+
+  test('should raise error if has no expression', () => {
+    const onError = jest.fn()
+    transformWithShow(`<div v-show/>`, { onError })
+
+    expect(onError).toHaveBeenCalledTimes(1)
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: DOMErrorCodes.X_V_SHOW_NO_EXPRESSION
+      })
+    )
+  })
+})
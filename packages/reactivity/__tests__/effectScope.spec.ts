@@ -0,0 +1,194 @@
+import {
+  effectScope,
+  getCurrentScope,
+  effect,
+  computed,
+  reactive,
+  stop,
+  EffectScope,
+  ReactiveEffect
+} from '../src'
+import { mockWarn } from '@vue/runtime-test'
+
+describe('reactivity/effectScope', () => {
+  mockWarn()
+
+  it('should run', () => {
+    const fnSpy = jest.fn(() => {})
+    effectScope().run(fnSpy)
+    expect(fnSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it('should accept zero argument', () => {
+    const scope = effectScope()
+    expect(scope.effects.length).toBe(0)
+  })
+
+  it('should return run value', () => {
+    expect(effectScope().run(() => 1)).toBe(1)
+  })
+
+  it('should collect the effects', () => {
+    const scope = effectScope()
+    scope.run(() => {
+      let dummy
+      const counter = reactive({ num: 0 })
+      effect(() => (dummy = counter.num))
+
+      expect(dummy).toBe(0)
+      counter.num = 7
+      expect(dummy).toBe(7)
+    })
+
+    expect(scope.effects.length).toBe(1)
+  })
+
+  it('stop', () => {
+    let dummy, doubled
+    const counter = reactive({ num: 0 })
+
+    const scope = effectScope()
+    scope.run(() => {
+      effect(() => (dummy = counter.num))
+      effect(() => (doubled = counter.num * 2))
+    })
+
+    expect(scope.effects.length).toBe(2)
+
+    expect(dummy).toBe(0)
+    counter.num = 7
+    expect(dummy).toBe(7)
+    expect(doubled).toBe(14)
+
+    scope.stop()
+
+    counter.num = 6
+    expect(dummy).toBe(7)
+    expect(doubled).toBe(14)
+  })
+
+  it('should collect computed', () => {
+    const counter = reactive({ num: 0 })
+    const scope = effectScope()
+    const double = scope.run(() => computed(() => counter.num * 2))!
+
+    expect(scope.effects).toEqual([double.effect])
+    expect(double.value).toBe(0)
+
+    scope.stop()
+    expect(double.effect.active).toBe(false)
+  })
+
+  it('should collect nested scope', () => {
+    let dummy, doubled
+    const counter = reactive({ num: 0 })
+
+    const scope = effectScope()
+    scope.run(() => {
+      effect(() => (dummy = counter.num))
+      // nested scope
+      effectScope().run(() => {
+        effect(() => (doubled = counter.num * 2))
+      })
+    })
+
+    expect(scope.effects.length).toBe(1)
+    expect(scope.scopes.length).toBe(1)
+    expect(scope.scopes[0]).toBeDefined()
+
+    expect(dummy).toBe(0)
+    counter.num = 7
+    expect(dummy).toBe(7)
+    expect(doubled).toBe(14)
+
+    // stop the nested scope as well
+    scope.stop()
+
+    counter.num = 6
+    expect(dummy).toBe(7)
+    expect(doubled).toBe(14)
+  })
+
+  it('nested scope can be escaped', () => {
+    let dummy, doubled
+    const counter = reactive({ num: 0 })
+
+    const scope = effectScope()
+    scope.run(() => {
+      effect(() => (dummy = counter.num))
+      // detached!
+      effectScope(true).run(() => {
+        effect(() => (doubled = counter.num * 2))
+      })
+    })
+
+    expect(scope.effects.length).toBe(1)
+    expect(scope.scopes.length).toBe(0)
+
+    counter.num = 7
+    expect(dummy).toBe(7)
+    expect(doubled).toBe(14)
+
+    scope.stop()
+
+    counter.num = 6
+    expect(dummy).toBe(7)
+
+    // nested scope should not be stopped
+    expect(doubled).toBe(12)
+  })
+
+  it('stopping a nested scope removes it from its parent', () => {
+    const parent = effectScope()
+    let child: EffectScope
+    parent.run(() => {
+      child = effectScope()
+    })
+    expect(parent.scopes).toEqual([child!])
+
+    child!.stop()
+    expect(parent.scopes.length).toBe(0)
+  })
+
+  it('stopping an effect removes it from its scope', () => {
+    const scope = effectScope()
+    let runner: ReactiveEffect
+    scope.run(() => {
+      runner = effect(() => {})
+      effect(() => {})
+    })
+    expect(scope.effects.length).toBe(2)
+
+    stop(runner!)
+    expect(scope.effects.length).toBe(1)
+    expect(scope.effects).not.toContain(runner!)
+  })
+
+  it('should not collect effects into an inactive scope', () => {
+    const scope = effectScope()
+    scope.stop()
+
+    expect(scope.run(() => 1)).toBeUndefined()
+    expect(`cannot run an inactive effect scope.`).toHaveBeenWarned()
+  })
+
+  it('getCurrentScope', () => {
+    expect(getCurrentScope()).toBe(null)
+    const parent = effectScope()
+    parent.run(() => {
+      expect(getCurrentScope()).toBe(parent)
+      const child = effectScope()
+      child.run(() => {
+        expect(getCurrentScope()).toBe(child)
+      })
+      expect(getCurrentScope()).toBe(parent)
+    })
+    expect(getCurrentScope()).toBe(null)
+  })
+
+  it('should accept an explicit scope', () => {
+    const scope = effectScope()
+    const runner = effect(() => {}, { scope })
+    expect(scope.effects).toEqual([runner])
+  })
+})
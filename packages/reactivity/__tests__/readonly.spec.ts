@@ -6,8 +6,6 @@ import {
   isReadonly,
   markNonReactive,
   markReadonly,
-  lock,
-  unlock,
   effect,
   ref
 } from '../src'
@@ -90,14 +88,14 @@ describe('reactivity/readonly', () => {
       ).toHaveBeenWarnedLast()
     })
 
-    it('should allow mutation when unlocked', () => {
-      const observed: any = readonly({ foo: 1, bar: { baz: 2 } })
-      unlock()
-      observed.prop = 2
-      observed.bar.qux = 3
-      delete observed.bar.baz
-      delete observed.foo
-      lock()
+    it('should allow mutation through the reactive source', () => {
+      const original: any = { foo: 1, bar: { baz: 2 } }
+      const observed: any = readonly(original)
+      const source = reactive(original)
+      source.prop = 2
+      source.bar.qux = 3
+      delete source.bar.baz
+      delete source.foo
       expect(observed.prop).toBe(2)
       expect(observed.foo).toBeUndefined()
       expect(observed.bar.qux).toBe(3)
@@ -105,7 +103,7 @@ describe('reactivity/readonly', () => {
       expect(`target is readonly`).not.toHaveBeenWarned()
     })
 
-    it('should not trigger effects when locked', () => {
+    it('should not trigger effects', () => {
       const observed: any = readonly({ a: 1 })
       let dummy
       effect(() => {
@@ -118,19 +116,31 @@ describe('reactivity/readonly', () => {
       expect(`target is readonly`).toHaveBeenWarned()
     })
 
-    it('should trigger effects when unlocked', () => {
-      const observed: any = readonly({ a: 1 })
+    it('should trigger effects when the reactive source is mutated', () => {
+      const source = reactive({ a: 1 })
+      const observed = readonly(source)
       let dummy
       effect(() => {
         dummy = observed.a
       })
       expect(dummy).toBe(1)
-      unlock()
-      observed.a = 2
-      lock()
+      source.a = 2
       expect(observed.a).toBe(2)
       expect(dummy).toBe(2)
     })
+
+    it('should be enforced per proxy', () => {
+      const original = { a: 1 }
+      const observed: any = readonly(original)
+      const other = reactive(original)
+      observed.a = 2
+      expect(observed.a).toBe(1)
+      expect(`target is readonly`).toHaveBeenWarnedTimes(1)
+      // another proxy of the same object stays mutable
+      other.a = 3
+      expect(observed.a).toBe(3)
+      expect(`target is readonly`).toHaveBeenWarnedTimes(1)
+    })
   })
 
   describe('Array', () => {
@@ -182,14 +192,14 @@ describe('reactivity/readonly', () => {
       expect(`target is readonly.`).toHaveBeenWarnedTimes(5)
     })
 
-    it('should allow mutation when unlocked', () => {
-      const observed: any = readonly([{ foo: 1, bar: { baz: 2 } }])
-      unlock()
-      observed[1] = 2
-      observed.push(3)
-      observed[0].foo = 2
-      observed[0].bar.baz = 3
-      lock()
+    it('should allow mutation through the reactive source', () => {
+      const original: any[] = [{ foo: 1, bar: { baz: 2 } }]
+      const observed: any = readonly(original)
+      const source = reactive(original)
+      source[1] = 2
+      source.push(3)
+      source[0].foo = 2
+      source[0].bar.baz = 3
       expect(observed.length).toBe(3)
       expect(observed[1]).toBe(2)
       expect(observed[2]).toBe(3)
@@ -198,7 +208,7 @@ describe('reactivity/readonly', () => {
       expect(`target is readonly`).not.toHaveBeenWarned()
     })
 
-    it('should not trigger effects when locked', () => {
+    it('should not trigger effects', () => {
       const observed: any = readonly([{ a: 1 }])
       let dummy
       effect(() => {
@@ -215,28 +225,26 @@ describe('reactivity/readonly', () => {
       expect(`target is readonly`).toHaveBeenWarnedTimes(2)
     })
 
-    it('should trigger effects when unlocked', () => {
-      const observed: any = readonly([{ a: 1 }])
+    it('should trigger effects when the reactive source is mutated', () => {
+      const source = reactive([{ a: 1 }])
+      const observed = readonly(source)
       let dummy
       effect(() => {
         dummy = observed[0].a
       })
       expect(dummy).toBe(1)
 
-      unlock()
-
-      observed[0].a = 2
+      source[0].a = 2
       expect(observed[0].a).toBe(2)
       expect(dummy).toBe(2)
 
-      observed[0] = { a: 3 }
+      source[0] = { a: 3 }
       expect(observed[0].a).toBe(3)
       expect(dummy).toBe(3)
 
-      observed.unshift({ a: 4 })
+      source.unshift({ a: 4 })
       expect(observed[0].a).toBe(4)
       expect(dummy).toBe(4)
-      lock()
     })
   })
 
@@ -275,8 +283,50 @@ describe('reactivity/readonly', () => {
         ).toHaveBeenWarned()
       })
 
-      test('should allow mutation & trigger effect when unlocked', () => {
+      test('should not allow deletion', () => {
+        const key = {}
+        const map = readonly(new Collection([[key, 1]]))
+        expect(map.delete(key)).toBe(false)
+        expect(map.has(key)).toBe(true)
+        expect(
+          `Delete operation on key "${key}" failed: target is readonly.`
+        ).toHaveBeenWarned()
+      })
+
+      test('should return the proxy from a blocked set', () => {
         const map = readonly(new Collection())
+        const key = {}
+        expect(map.set(key, 1)).toBe(map)
+        expect(`target is readonly`).toHaveBeenWarned()
+      })
+
+      if (Collection === Map) {
+        test('should not allow clearing', () => {
+          const map = readonly(new Collection([['foo', 1]]))
+          expect(map.clear()).toBeUndefined()
+          expect(map.size).toBe(1)
+          expect(
+            `Clear operation failed: target is readonly.`
+          ).toHaveBeenWarned()
+        })
+
+        test('should name non-string keys in warnings', () => {
+          const map = readonly(new Collection())
+          map.set(0, 1)
+          expect(
+            `Set operation on key "0" failed: target is readonly.`
+          ).toHaveBeenWarned()
+          map.set(Symbol('foo'), 1)
+          expect(
+            `Set operation on key "Symbol(foo)" failed: target is readonly.`
+          ).toHaveBeenWarned()
+          expect(map.size).toBe(0)
+        })
+      }
+
+      test('should trigger effect when the reactive source is mutated', () => {
+        const source = reactive(new Collection())
+        const map = readonly(source)
         const isWeak = Collection === WeakMap
         const key = {}
         let dummy
@@ -284,9 +334,7 @@ describe('reactivity/readonly', () => {
           dummy = map.get(key) + (isWeak ? 0 : map.size)
         })
         expect(dummy).toBeNaN()
-        unlock()
-        map.set(key, 1)
-        lock()
+        source.set(key, 1)
         expect(dummy).toBe(isWeak ? 1 : 2)
         expect(map.get(key)).toBe(1)
         expect(`target is readonly`).not.toHaveBeenWarned()
@@ -346,17 +394,43 @@ describe('reactivity/readonly', () => {
         ).toHaveBeenWarned()
       })
 
-      test('should allow mutation & trigger effect when unlocked', () => {
+      test('should not allow deletion', () => {
+        const key = {}
+        const set = readonly(new Collection([key]))
+        expect(set.delete(key)).toBe(false)
+        expect(set.has(key)).toBe(true)
+        expect(
+          `Delete operation on key "${key}" failed: target is readonly.`
+        ).toHaveBeenWarned()
+      })
+
+      test('should return the proxy from a blocked add', () => {
         const set = readonly(new Collection())
+        expect(set.add({})).toBe(set)
+        expect(`target is readonly`).toHaveBeenWarned()
+      })
+
+      if (Collection === Set) {
+        test('should not allow clearing', () => {
+          const set = readonly(new Collection([1]))
+          expect(set.clear()).toBeUndefined()
+          expect(set.size).toBe(1)
+          expect(
+            `Clear operation failed: target is readonly.`
+          ).toHaveBeenWarned()
+        })
+      }
+
+      test('should trigger effect when the reactive source is mutated', () => {
+        const source = reactive(new Collection())
+        const set = readonly(source)
         const key = {}
         let dummy
         effect(() => {
           dummy = set.has(key)
         })
         expect(dummy).toBe(false)
-        unlock()
-        set.add(key)
-        lock()
+        source.add(key)
         expect(dummy).toBe(true)
         expect(set.has(key)).toBe(true)
         expect(`target is readonly`).not.toHaveBeenWarned()
@@ -0,0 +1,143 @@
+import {
+  reactive,
+  shallowReactive,
+  shallowReadonly,
+  isReactive,
+  isReadonly,
+  toRaw,
+  effect,
+  ref
+} from '../src'
+import { mockWarn } from '@vue/runtime-test'
+
+describe('reactivity/shallowReactive', () => {
+  test('should not make non-reactive properties reactive', () => {
+    const props = shallowReactive({ n: { foo: 1 } })
+    expect(isReactive(props)).toBe(true)
+    expect(isReactive(props.n)).toBe(false)
+  })
+
+  test('should keep reactive properties reactive', () => {
+    const props: any = shallowReactive({ n: reactive({ foo: 1 }) })
+    props.n = reactive({ foo: 2 })
+    expect(isReactive(props.n)).toBe(true)
+  })
+
+  test('should only track root level properties', () => {
+    const original = { a: 1, nested: { b: 1 } }
+    const observed = shallowReactive(original)
+    let dummy
+    effect(() => {
+      dummy = observed.a + observed.nested.b
+    })
+    expect(dummy).toBe(2)
+
+    observed.a = 2
+    expect(dummy).toBe(3)
+
+    // nested objects are not proxied
+    observed.nested.b = 2
+    expect(dummy).toBe(3)
+
+    observed.nested = { b: 3 }
+    expect(dummy).toBe(5)
+  })
+
+  test('should not unwrap refs', () => {
+    const foo = ref(1)
+    const observed: any = shallowReactive({ foo })
+    expect(observed.foo).toBe(foo)
+
+    // assigning to a ref property replaces the ref
+    observed.foo = 2
+    expect(observed.foo).toBe(2)
+    expect(foo.value).toBe(1)
+  })
+
+  test('should return the same proxy', () => {
+    const original = { foo: 1 }
+    const observed = shallowReactive(original)
+    expect(shallowReactive(original)).toBe(observed)
+    expect(shallowReactive(observed)).toBe(observed)
+    expect(reactive(observed)).toBe(observed)
+    expect(toRaw(observed)).toBe(original)
+  })
+
+  test('should use the raw object of a reactive proxy', () => {
+    const original = { foo: 1 }
+    const observed = shallowReactive(reactive(original))
+    expect(toRaw(observed)).toBe(original)
+    expect(observed).not.toBe(reactive(original))
+  })
+
+  describe('collections', () => {
+    test('should not make Map values reactive', () => {
+      const map = shallowReactive(new Map([['foo', { bar: 1 }]]))
+      expect(isReactive(map)).toBe(true)
+      expect(isReactive(map.get('foo'))).toBe(false)
+    })
+
+    test('should track Map mutations', () => {
+      const map = shallowReactive(new Map<string, number>())
+      let dummy
+      effect(() => {
+        dummy = map.get('foo')
+      })
+      expect(dummy).toBeUndefined()
+      map.set('foo', 1)
+      expect(dummy).toBe(1)
+    })
+
+    test('should not make iterated Set values reactive', () => {
+      const set = shallowReactive(new Set([{ foo: 1 }]))
+      const values: unknown[] = []
+      set.forEach(value => values.push(value))
+      for (const value of set) {
+        values.push(value)
+      }
+      expect(values.length).toBe(2)
+      values.forEach(value => expect(isReactive(value)).toBe(false))
+    })
+  })
+})
+
+describe('reactivity/shallowReadonly', () => {
+  mockWarn()
+
+  test('should not make non-reactive properties reactive', () => {
+    const props = shallowReadonly({ n: { foo: 1 } })
+    expect(isReactive(props)).toBe(true)
+    expect(isReadonly(props)).toBe(true)
+    expect(isReactive(props.n)).toBe(false)
+    expect(isReadonly(props.n)).toBe(false)
+  })
+
+  test('should make root level properties readonly', () => {
+    const props: any = shallowReadonly({ n: 1 })
+    props.n = 2
+    expect(props.n).toBe(1)
+    expect(
+      `Set operation on key "n" failed: target is readonly.`
+    ).toHaveBeenWarned()
+  })
+
+  test('should NOT make nested properties readonly', () => {
+    const props = shallowReadonly({ n: { foo: 1 } })
+    props.n.foo = 2
+    expect(props.n.foo).toBe(2)
+    expect(
+      `Set operation on key "foo" failed: target is readonly.`
+    ).not.toHaveBeenWarned()
+  })
+
+  test('should not make Map values readonly', () => {
+    const map = shallowReadonly(new Map([['foo', { bar: 1 }]]))
+    expect(isReadonly(map.get('foo'))).toBe(false)
+
+    map.set('foo', { bar: 2 })
+    expect(map.get('foo')!.bar).toBe(1)
+    expect(
+      `Set operation on key "foo" failed: target is readonly.`
+    ).toHaveBeenWarned()
+  })
+})
@@ -1,7 +1,6 @@
 import { toRaw, reactive, readonly } from './reactive'
 import { track, trigger } from './effect'
 import { OperationTypes } from './operations'
-import { LOCKED } from './lock'
 import { isObject, capitalize, hasOwn, hasChanged } from '@vue/shared'
 
 export type CollectionTypes = IterableCollections | WeakCollections
@@ -17,14 +16,14 @@ const toReactive = <T extends unknown>(value: T): T =>
 const toReadonly = <T extends unknown>(value: T): T =>
   isObject(value) ? readonly(value) : value
 
+const toShallow = <T extends unknown>(value: T): T => value
+
+type Wrap = typeof toReactive
+
 const getProto = <T extends CollectionTypes>(v: T): any =>
   Reflect.getPrototypeOf(v)
 
-function get(
-  target: MapTypes,
-  key: unknown,
-  wrap: typeof toReactive | typeof toReadonly
-) {
+function get(target: MapTypes, key: unknown, wrap: Wrap) {
   target = toRaw(target)
   key = toRaw(key)
   track(target, OperationTypes.GET, key)
@@ -125,7 +124,7 @@ function clear(this: IterableCollections) {
   return result
 }
 
-function createForEach(isReadonly: boolean) {
+function createForEach(wrap: Wrap) {
   return function forEach(
     this: IterableCollections,
     callback: Function,
@@ -133,7 +132,6 @@ function createForEach(isReadonly: boolean) {
   ) {
     const observed = this
     const target = toRaw(observed)
-    const wrap = isReadonly ? toReadonly : toReactive
     track(target, OperationTypes.ITERATE)
     // important: create sure the callback is
     // 1. invoked with the reactive map as `this` and 3rd arg
@@ -145,14 +143,13 @@ function createForEach(isReadonly: boolean) {
   }
 }
 
-function createIterableMethod(method: string | symbol, isReadonly: boolean) {
+function createIterableMethod(method: string | symbol, wrap: Wrap) {
   return function(this: IterableCollections, ...args: unknown[]) {
     const target = toRaw(this)
     const isPair =
       method === 'entries' ||
       (method === Symbol.iterator && target instanceof Map)
     const innerIterator = getProto(target)[method].apply(target, args)
-    const wrap = isReadonly ? toReadonly : toReactive
     track(target, OperationTypes.ITERATE)
     // return a wrapped iterator which returns observed versions of the
     // values emitted from the real iterator
@@ -175,67 +172,57 @@ function createIterableMethod(method: string | symbol, isReadonly: boolean) {
   }
 }
 
-function createReadonlyMethod(
-  method: Function,
-  type: OperationTypes
-): Function {
+function createReadonlyMethod(type: OperationTypes): Function {
   return function(this: CollectionTypes, ...args: unknown[]) {
-    if (LOCKED) {
-      if (__DEV__) {
-        const key = args[0] ? `on key "${args[0]}" ` : ``
-        console.warn(
-          `${capitalize(type)} operation ${key}failed: target is readonly.`,
-          toRaw(this)
-        )
-      }
-      return type === OperationTypes.DELETE ? false : this
+    if (__DEV__) {
+      const key = args.length ? `on key "${String(args[0])}" ` : ``
+      console.warn(
+        `${capitalize(type)} operation ${key}failed: target is readonly.`,
+        toRaw(this)
+      )
+    }
+    // mirror the return values of the native methods
+    if (type === OperationTypes.DELETE) {
+      return false
+    } else if (type === OperationTypes.CLEAR) {
+      return undefined
     } else {
-      return method.apply(this, args)
+      return this
     }
   }
 }
 
-const mutableInstrumentations: Record<string, Function> = {
-  get(this: MapTypes, key: unknown) {
-    return get(this, key, toReactive)
-  },
-  get size(this: IterableCollections) {
-    return size(this)
-  },
-  has,
-  add,
-  set,
-  delete: deleteEntry,
-  clear,
-  forEach: createForEach(false)
-}
-
-const readonlyInstrumentations: Record<string, Function> = {
-  get(this: MapTypes, key: unknown) {
-    return get(this, key, toReadonly)
-  },
-  get size(this: IterableCollections) {
-    return size(this)
-  },
-  has,
-  add: createReadonlyMethod(add, OperationTypes.ADD),
-  set: createReadonlyMethod(set, OperationTypes.SET),
-  delete: createReadonlyMethod(deleteEntry, OperationTypes.DELETE),
-  clear: createReadonlyMethod(clear, OperationTypes.CLEAR),
-  forEach: createForEach(true)
+function createInstrumentations(
+  isReadonly: boolean,
+  wrap: Wrap
+): Record<string, Function> {
+  const instrumentations: Record<string, Function> = {
+    get(this: MapTypes, key: unknown) {
+      return get(this, key, wrap)
+    },
+    get size(this: IterableCollections) {
+      return size(this)
+    },
+    has,
+    add: isReadonly ? createReadonlyMethod(OperationTypes.ADD) : add,
+    set: isReadonly ? createReadonlyMethod(OperationTypes.SET) : set,
+    delete: isReadonly
+      ? createReadonlyMethod(OperationTypes.DELETE)
+      : deleteEntry,
+    clear: isReadonly ? createReadonlyMethod(OperationTypes.CLEAR) : clear,
+    forEach: createForEach(wrap)
+  }
+  const iteratorMethods = ['keys', 'values', 'entries', Symbol.iterator]
+  iteratorMethods.forEach(method => {
+    instrumentations[method as string] = createIterableMethod(method, wrap)
+  })
+  return instrumentations
 }
 
-const iteratorMethods = ['keys', 'values', 'entries', Symbol.iterator]
-iteratorMethods.forEach(method => {
-  mutableInstrumentations[method as string] = createIterableMethod(
-    method,
-    false
-  )
-  readonlyInstrumentations[method as string] = createIterableMethod(
-    method,
-    true
-  )
-})
+const mutableInstrumentations = createInstrumentations(false, toReactive)
+const shallowInstrumentations = createInstrumentations(false, toShallow)
+const readonlyInstrumentations = createInstrumentations(true, toReadonly)
+const shallowReadonlyInstrumentations = createInstrumentations(true, toShallow)
 
 function createInstrumentationGetter(
   instrumentations: Record<string, Function>
@@ -261,3 +248,13 @@ export const mutableCollectionHandlers: ProxyHandler<CollectionTypes> = {
 export const readonlyCollectionHandlers: ProxyHandler<CollectionTypes> = {
   get: createInstrumentationGetter(readonlyInstrumentations)
 }
+
+export const shallowCollectionHandlers: ProxyHandler<CollectionTypes> = {
+  get: createInstrumentationGetter(shallowInstrumentations)
+}
+
+export const shallowReadonlyCollectionHandlers: ProxyHandler<
+  CollectionTypes
+> = {
+  get: createInstrumentationGetter(shallowReadonlyInstrumentations)
+}
@@ -1,6 +1,7 @@
 import { OperationTypes } from './operations'
 import { Dep, targetMap } from './reactive'
 import { EMPTY_OBJ, extend } from '@vue/shared'
+import { EffectScope, recordEffectScope } from './effectScope'
 
 export interface ReactiveEffect<T = any> {
   (): T
@@ -9,6 +10,7 @@ export interface ReactiveEffect<T = any> {
   raw: () => T
   deps: Array<Dep>
   options: ReactiveEffectOptions
+  scope: EffectScope | null
 }
 
 export interface ReactiveEffectOptions {
@@ -18,6 +20,8 @@ export interface ReactiveEffectOptions {
   onTrack?: (event: DebuggerEvent) => void
   onTrigger?: (event: DebuggerEvent) => void
   onStop?: () => void
+  // the scope that owns the effect. Defaults to the active scope.
+  scope?: EffectScope
 }
 
 export type DebuggerEvent = {
@@ -49,6 +53,7 @@ export function effect<T = any>(
     fn = fn.raw
   }
   const effect = createReactiveEffect(fn, options)
+  recordEffectScope(effect, options.scope)
   if (!options.lazy) {
     effect()
   }
@@ -61,6 +66,14 @@ export function stop(effect: ReactiveEffect) {
     if (effect.options.onStop) {
       effect.options.onStop()
     }
+    // a scope that is being stopped drops all of its effects at once
+    const { scope } = effect
+    if (scope !== null && scope.active) {
+      const i = scope.effects.indexOf(effect)
+      if (i > -1) {
+        scope.effects.splice(i, 1)
+      }
+    }
     effect.active = false
   }
 }
@@ -77,6 +90,7 @@ function createReactiveEffect<T = any>(
   effect.raw = fn
   effect.deps = []
   effect.options = options
+  effect.scope = null
   return effect
 }
 
@@ -0,0 +1,94 @@
+import { ReactiveEffect, stop } from './effect'
+
+// Collects the effects (including computed and watchers) created while it is
+// active, so that they can be disposed of all at once. Scopes created inside
+// another scope are collected and stopped by it as well, unless detached.
+export interface EffectScope {
+  active: boolean
+  effects: ReactiveEffect[]
+  scopes: EffectScope[]
+  parent: EffectScope | null
+  run<T>(fn: () => T): T | undefined
+  stop(): void
+  // internal: activate / deactivate the scope without a callback. Used by
+  // components to activate their scope whenever they are the current instance.
+  on(): void
+  off(): void
+}
+
+const effectScopeStack: EffectScope[] = []
+let activeEffectScope: EffectScope | null = null
+
+export function effectScope(detached: boolean = false): EffectScope {
+  const scope: EffectScope = {
+    active: true,
+    effects: [],
+    scopes: [],
+    parent: detached ? null : activeEffectScope,
+
+    run(fn) {
+      if (!scope.active) {
+        if (__DEV__) {
+          console.warn(`cannot run an inactive effect scope.`)
+        }
+        return
+      }
+      try {
+        scope.on()
+        return fn()
+      } finally {
+        scope.off()
+      }
+    },
+
+    stop() {
+      if (!scope.active) {
+        return
+      }
+      scope.active = false
+      scope.effects.forEach(stop)
+      // child scopes remove themselves from the list when stopped
+      scope.scopes.slice().forEach(child => child.stop())
+      const { parent } = scope
+      if (parent) {
+        const i = parent.scopes.indexOf(scope)
+        if (i > -1) {
+          parent.scopes.splice(i, 1)
+        }
+      }
+    },
+
+    on() {
+      if (scope.active) {
+        effectScopeStack.push(scope)
+        activeEffectScope = scope
+      }
+    },
+
+    off() {
+      if (effectScopeStack[effectScopeStack.length - 1] === scope) {
+        effectScopeStack.pop()
+        activeEffectScope =
+          effectScopeStack[effectScopeStack.length - 1] || null
+      }
+    }
+  }
+  if (scope.parent) {
+    scope.parent.scopes.push(scope)
+  }
+  return scope
+}
+
+export function getCurrentScope(): EffectScope | null {
+  return activeEffectScope
+}
+
+export function recordEffectScope(
+  effect: ReactiveEffect,
+  scope: EffectScope | null = activeEffectScope
+) {
+  if (scope && scope.active) {
+    scope.effects.push(effect)
+    effect.scope = scope
+  }
+}
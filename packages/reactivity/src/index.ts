@@ -1,9 +1,23 @@
-export { ref, isRef, toRefs, Ref, UnwrapRef } from './ref'
+export {
+  ref,
+  shallowRef,
+  isRef,
+  toRef,
+  toRefs,
+  unref,
+  customRef,
+  triggerRef,
+  Ref,
+  UnwrapRef,
+  CustomRefFactory
+} from './ref'
 export {
   reactive,
   isReactive,
+  shallowReactive,
   readonly,
   isReadonly,
+  shallowReadonly,
   toRaw,
   markReadonly,
   markNonReactive
@@ -26,5 +40,10 @@ export {
   ReactiveEffectOptions,
   DebuggerEvent
 } from './effect'
-export { lock, unlock } from './lock'
+export {
+  effectScope,
+  getCurrentScope,
+  recordEffectScope,
+  EffectScope
+} from './effectScope'
 export { OperationTypes } from './operations'
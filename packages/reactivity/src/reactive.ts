@@ -1,8 +1,15 @@
 import { isObject, toRawType } from '@vue/shared'
-import { mutableHandlers, readonlyHandlers } from './baseHandlers'
+import {
+  mutableHandlers,
+  readonlyHandlers,
+  shallowReactiveHandlers,
+  shallowReadonlyHandlers
+} from './baseHandlers'
 import {
   mutableCollectionHandlers,
-  readonlyCollectionHandlers
+  readonlyCollectionHandlers,
+  shallowCollectionHandlers,
+  shallowReadonlyCollectionHandlers
 } from './collectionHandlers'
 import { ReactiveEffect } from './effect'
 import { UnwrapRef, Ref } from './ref'
@@ -21,6 +28,10 @@ const rawToReactive = new WeakMap<any, any>()
 const reactiveToRaw = new WeakMap<any, any>()
 const rawToReadonly = new WeakMap<any, any>()
 const readonlyToRaw = new WeakMap<any, any>()
+const rawToShallowReactive = new WeakMap<any, any>()
+const shallowReactiveToRaw = new WeakMap<any, any>()
+const rawToShallowReadonly = new WeakMap<any, any>()
+const shallowReadonlyToRaw = new WeakMap<any, any>()
 
 // WeakSets for values that are marked readonly or non-reactive during
 // observable creation.
@@ -46,8 +57,12 @@ type UnwrapNestedRefs<T> = T extends Ref ? T : UnwrapRef<T>
 
 export function reactive<T extends object>(target: T): UnwrapNestedRefs<T>
 export function reactive(target: object) {
-  // if trying to observe a readonly proxy, return the readonly version.
-  if (readonlyToRaw.has(target)) {
+  // if trying to observe a readonly or shallow proxy, return it as is.
+  if (
+    readonlyToRaw.has(target) ||
+    shallowReactiveToRaw.has(target) ||
+    shallowReadonlyToRaw.has(target)
+  ) {
     return target
   }
   // target is explicitly marked as readonly by user
@@ -80,6 +95,33 @@ export function readonly<T extends object>(
   )
 }
 
+// Only the root level properties are reactive: nested objects are returned as
+// is, and refs are not unwrapped. Useful for large data that is replaced as a
+// whole rather than mutated.
+export function shallowReactive<T extends object>(target: T): T {
+  return createReactiveObject(
+    toRaw(target),
+    rawToShallowReactive,
+    shallowReactiveToRaw,
+    shallowReactiveHandlers,
+    shallowCollectionHandlers
+  )
+}
+
+// Only the root level properties are readonly: nested objects are returned as
+// is, and refs are not unwrapped.
+export function shallowReadonly<T extends object>(
+  target: T
+): Readonly<{ [K in keyof T]: T[K] }> {
+  return createReactiveObject(
+    toRaw(target),
+    rawToShallowReadonly,
+    shallowReadonlyToRaw,
+    shallowReadonlyHandlers,
+    shallowReadonlyCollectionHandlers
+  )
+}
+
 function createReactiveObject(
   target: unknown,
   toProxy: WeakMap<any, any>,
@@ -119,15 +161,26 @@ function createReactiveObject(
 }
 
 export function isReactive(value: unknown): boolean {
-  return reactiveToRaw.has(value) || readonlyToRaw.has(value)
+  return (
+    reactiveToRaw.has(value) ||
+    readonlyToRaw.has(value) ||
+    shallowReactiveToRaw.has(value) ||
+    shallowReadonlyToRaw.has(value)
+  )
 }
 
 export function isReadonly(value: unknown): boolean {
-  return readonlyToRaw.has(value)
+  return readonlyToRaw.has(value) || shallowReadonlyToRaw.has(value)
 }
 
 export function toRaw<T>(observed: T): T {
-  return reactiveToRaw.get(observed) || readonlyToRaw.get(observed) || observed
+  return (
+    reactiveToRaw.get(observed) ||
+    readonlyToRaw.get(observed) ||
+    shallowReactiveToRaw.get(observed) ||
+    shallowReadonlyToRaw.get(observed) ||
+    observed
+  )
 }
 
 export function markReadonly<T>(value: T): T {
@@ -16,10 +16,24 @@ const convert = <T extends unknown>(val: T): T =>
 export function ref<T extends Ref>(raw: T): T
 export function ref<T>(raw: T): Ref<T>
 export function ref(raw: unknown) {
+  return createRef(raw)
+}
+
+// a ref whose value is not made reactive: only replacing `.value` triggers.
+// Mutations of the value itself can be signaled with `triggerRef()`.
+export function shallowRef<T extends Ref>(raw: T): T
+export function shallowRef<T>(raw: T): Ref<T>
+export function shallowRef(raw: unknown) {
+  return createRef(raw, true)
+}
+
+function createRef(raw: unknown, shallow = false) {
   if (isRef(raw)) {
     return raw
   }
-  raw = convert(raw)
+  if (!shallow) {
+    raw = convert(raw)
+  }
   const r = {
     _isRef: true,
     get value() {
@@ -27,28 +41,64 @@ export function ref(raw: unknown) {
       return raw
     },
     set value(newVal) {
-      raw = convert(newVal)
+      raw = shallow ? newVal : convert(newVal)
       trigger(r, OperationTypes.SET, '')
     }
   }
   return r as Ref
 }
 
+export function triggerRef(ref: Ref) {
+  trigger(ref, OperationTypes.SET, '')
+}
+
 export function isRef(r: any): r is Ref {
   return r ? r._isRef === true : false
 }
 
+export function unref<T>(ref: T): T extends Ref<infer V> ? V : T {
+  return isRef(ref) ? (ref.value as any) : ref
+}
+
+export type CustomRefFactory<T> = (
+  track: () => void,
+  trigger: () => void
+) => {
+  get: () => T
+  set: (value: T) => void
+}
+
+// a ref that controls its own dependency tracking and triggering, e.g. to
+// debounce updates
+export function customRef<T>(factory: CustomRefFactory<T>): Ref<T> {
+  const { get, set } = factory(
+    () => track(r, OperationTypes.GET, ''),
+    () => trigger(r, OperationTypes.SET, '')
+  )
+  const r = {
+    _isRef: true,
+    get value() {
+      return get()
+    },
+    set value(newVal) {
+      set(newVal)
+    }
+  }
+  return r as Ref<T>
+}
+
 export function toRefs<T extends object>(
   object: T
 ): { [K in keyof T]: Ref<T[K]> } {
   const ret: any = {}
   for (const key in object) {
-    ret[key] = toProxyRef(object, key)
+    ret[key] = toRef(object, key)
   }
   return ret
 }
 
-function toProxyRef<T extends object, K extends keyof T>(
+// a ref that reads and writes the property of a (reactive) source object
+export function toRef<T extends object, K extends keyof T>(
   object: T,
   key: K
 ): Ref<T[K]> {
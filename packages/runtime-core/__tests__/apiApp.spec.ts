@@ -11,7 +11,11 @@ import {
   withDirectives,
   Plugin,
   ref,
-  getCurrentInstance
+  getCurrentInstance,
+  watch,
+  nextTick,
+  onBeforeUnmount,
+  onUnmounted
 } from '@vue/runtime-test'
 
 describe('api: createApp', () => {
@@ -46,6 +50,53 @@ describe('api: createApp', () => {
     expect(`already been mounted`).toHaveBeenWarned()
   })
 
+  test('unmount', async () => {
+    const count = ref(0)
+    const beforeUnmount = jest.fn()
+    const unmounted = jest.fn()
+    const watchSpy = jest.fn()
+    const Child = {
+      setup() {
+        watch(() => count.value, watchSpy)
+        onBeforeUnmount(beforeUnmount)
+        onUnmounted(unmounted)
+        return () => h('span', count.value)
+      }
+    }
+    const Root = {
+      setup() {
+        return () => h('div', [h(Child)])
+      }
+    }
+
+    const root = nodeOps.createElement('div')
+    const app = createApp()
+    app.mount(Root, root)
+    expect(serializeInner(root)).toBe(`<div><span>0</span></div>`)
+    await nextTick()
+    expect(watchSpy).toHaveBeenCalledTimes(1)
+
+    app.unmount()
+    expect(serializeInner(root)).toBe(``)
+    expect(beforeUnmount).toHaveBeenCalledTimes(1)
+    expect(unmounted).toHaveBeenCalledTimes(1)
+
+    // effects and watchers are stopped
+    count.value++
+    await nextTick()
+    expect(watchSpy).toHaveBeenCalledTimes(1)
+
+    // the app can be mounted again
+    app.mount(Root, root)
+    expect(serializeInner(root)).toBe(`<div><span>1</span></div>`)
+    expect(`already been mounted`).not.toHaveBeenWarned()
+  })
+
+  test('unmount an app that is not mounted', () => {
+    createApp().unmount()
+    expect(`Cannot unmount an app that is not mounted.`).toHaveBeenWarned()
+  })
+
   test('provide', () => {
     const app = createApp()
     app.provide('foo', 1)
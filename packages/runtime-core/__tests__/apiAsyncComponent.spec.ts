@@ -0,0 +1,372 @@
+import {
+  defineAsyncComponent,
+  h,
+  Component,
+  ref,
+  nextTick,
+  Suspense,
+  render,
+  nodeOps,
+  serializeInner,
+  createApp,
+  mockWarn
+} from '@vue/runtime-test'
+
+const timeout = (n: number = 0) => new Promise(r => setTimeout(r, n))
+
+describe('api: defineAsyncComponent', () => {
+  mockWarn()
+
+  let root: ReturnType<typeof nodeOps.createElement>
+
+  beforeEach(() => {
+    root = nodeOps.createElement('div')
+  })
+
+  // a loader whose promise is settled manually
+  function createLoader() {
+    let resolve: (comp: Component) => void
+    let reject: (err: Error) => void
+    const loader = jest.fn(
+      () =>
+        new Promise<any>((_resolve, _reject) => {
+          resolve = _resolve
+          reject = _reject
+        })
+    )
+    return {
+      loader,
+      resolve: (comp: Component) => resolve(comp),
+      reject: (err: Error) => reject(err)
+    }
+  }
+
+  test('simple usage', async () => {
+    const { loader, resolve } = createLoader()
+    const Foo = defineAsyncComponent(loader)
+    const toggle = ref(true)
+    render(h({ render: () => (toggle.value ? h(Foo) : null) }), root)
+    expect(serializeInner(root)).toBe('<!---->')
+
+    resolve(() => 'resolved')
+    // first time resolve, wait for macro task since there are multiple
+    // microtasks / .then() calls
+    await timeout()
+    expect(serializeInner(root)).toBe('resolved')
+
+    // already resolved component should update on nextTick
+    toggle.value = false
+    await nextTick()
+    expect(serializeInner(root)).toBe('<!---->')
+    toggle.value = true
+    await nextTick()
+    expect(serializeInner(root)).toBe('resolved')
+    expect(loader).toHaveBeenCalledTimes(1)
+  })
+
+  test('with es module default export', async () => {
+    const Foo = defineAsyncComponent(() =>
+      Promise.resolve({ __esModule: true, default: () => 'resolved' } as any)
+    )
+    render(h(Foo), root)
+    await timeout()
+    expect(serializeInner(root)).toBe('resolved')
+  })
+
+  test('passes props and slots to the loaded component', async () => {
+    const { loader, resolve } = createLoader()
+    const Foo = defineAsyncComponent(loader)
+    render(h(Foo, { msg: 'hello' }, { default: () => 'slot' }), root)
+    resolve({
+      props: { msg: String },
+      render(this: any) {
+        return [this.msg, this.$slots.default()]
+      }
+    })
+    await timeout()
+    expect(serializeInner(root)).toBe('<!---->hello<!---->slot<!----><!---->')
+  })
+
+  test('loading component', async () => {
+    const { loader, resolve } = createLoader()
+    const Foo = defineAsyncComponent({
+      loader,
+      loadingComponent: () => 'loading',
+      delay: 1
+    })
+    render(h(Foo), root)
+    expect(serializeInner(root)).toBe('<!---->')
+
+    await timeout(1)
+    expect(serializeInner(root)).toBe('loading')
+
+    resolve(() => 'resolved')
+    await timeout()
+    expect(serializeInner(root)).toBe('resolved')
+  })
+
+  test('loading component without delay', async () => {
+    const { loader } = createLoader()
+    const Foo = defineAsyncComponent({
+      loader,
+      loadingComponent: () => 'loading',
+      delay: 0
+    })
+    render(h(Foo), root)
+    expect(serializeInner(root)).toBe('loading')
+  })
+
+  test('error component', async () => {
+    const { loader, reject } = createLoader()
+    const Foo = defineAsyncComponent({
+      loader,
+      errorComponent: (props: { error: Error }) => props.error.message
+    })
+    const handler = jest.fn()
+    const app = createApp()
+    app.config.errorHandler = handler
+    app.mount(() => h(Foo), root)
+
+    const err = new Error('errored')
+    reject(err)
+    await timeout()
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(handler.mock.calls[0][0]).toBe(err)
+    expect(handler.mock.calls[0][2]).toBe('async component loader')
+    expect(serializeInner(root)).toBe('errored')
+  })
+
+  test('error component without error handler', async () => {
+    const { loader, reject } = createLoader()
+    const Foo = defineAsyncComponent({
+      loader,
+      errorComponent: (props: { error: Error }) => props.error.message
+    })
+    render(h(Foo), root)
+
+    reject(new Error('errored'))
+    await timeout()
+    expect(serializeInner(root)).toBe('errored')
+  })
+
+  test('timeout', async () => {
+    const { loader, resolve } = createLoader()
+    const Foo = defineAsyncComponent({
+      loader,
+      errorComponent: (props: { error: Error }) => props.error.message,
+      timeout: 1
+    })
+    const handler = jest.fn()
+    const app = createApp()
+    app.config.errorHandler = handler
+    app.mount(() => h(Foo), root)
+    expect(serializeInner(root)).toBe('<!---->')
+
+    await timeout(1)
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(serializeInner(root)).toBe('Async component timed out after 1ms.')
+
+    // a late resolve still renders the component
+    resolve(() => 'resolved')
+    await timeout()
+    expect(serializeInner(root)).toBe('resolved')
+  })
+
+  test('timeout without error handler', async () => {
+    const { loader } = createLoader()
+    const Foo = defineAsyncComponent({
+      loader,
+      errorComponent: (props: { error: Error }) => props.error.message,
+      timeout: 1
+    })
+    render(h(Foo), root)
+
+    await timeout(1)
+    expect(serializeInner(root)).toBe('Async component timed out after 1ms.')
+  })
+
+  test('timers are cleared on unmount', async () => {
+    const { loader } = createLoader()
+    const Foo = defineAsyncComponent({
+      loader,
+      loadingComponent: () => 'loading',
+      delay: 1,
+      timeout: 1
+    })
+    const handler = jest.fn()
+    const app = createApp()
+    app.config.errorHandler = handler
+    app.mount(() => h(Foo), root)
+    app.unmount()
+
+    await timeout(1)
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  test('timeout does not restart the shared request', async () => {
+    const { loader, resolve } = createLoader()
+    const Foo = defineAsyncComponent({
+      loader,
+      errorComponent: (props: { error: Error }) => props.error.message,
+      timeout: 1
+    })
+    const toggle = ref(false)
+    const handler = jest.fn()
+    const app = createApp()
+    app.config.errorHandler = handler
+    app.mount(() => [h(Foo), toggle.value ? h(Foo) : null], root)
+
+    await timeout(1)
+    expect(handler).toHaveBeenCalledTimes(1)
+    toggle.value = true
+    await nextTick()
+    expect(loader).toHaveBeenCalledTimes(1)
+
+    resolve(() => 'resolved')
+    await timeout()
+    expect(serializeInner(root)).toBe('<!---->resolvedresolved<!---->')
+  })
+
+  test('loader error without error component and error handler', async () => {
+    const { loader, reject } = createLoader()
+    const Foo = defineAsyncComponent(loader)
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => {})
+    const unhandled = jest.fn()
+    process.on('unhandledRejection', unhandled)
+    try {
+      render(h(Foo), root)
+      const err = new Error('errored')
+      reject(err)
+      await timeout()
+      expect(spy).toHaveBeenCalledWith(err)
+      expect(unhandled).not.toHaveBeenCalled()
+      expect(serializeInner(root)).toBe('<!---->')
+    } finally {
+      process.off('unhandledRejection', unhandled)
+      spy.mockRestore()
+    }
+  })
+
+  test('retry on error', async () => {
+    let attempt = 0
+    const loader = jest.fn(() => {
+      attempt++
+      return attempt < 3
+        ? Promise.reject(new Error('errored'))
+        : Promise.resolve(() => 'resolved')
+    })
+    const onError = jest.fn((err, retry, fail, attempts) => {
+      if (attempts < 3) {
+        retry()
+      } else {
+        fail()
+      }
+    })
+    const Foo = defineAsyncComponent({ loader, onError })
+    render(h(Foo), root)
+    await timeout()
+    expect(loader).toHaveBeenCalledTimes(3)
+    expect(onError).toHaveBeenCalledTimes(2)
+    expect(serializeInner(root)).toBe('resolved')
+  })
+
+  test('fail after retries', async () => {
+    const loader = jest.fn(() => Promise.reject(new Error('errored')))
+    const Foo = defineAsyncComponent({
+      loader,
+      errorComponent: () => 'error',
+      onError(err, retry, fail, attempts) {
+        attempts < 2 ? retry() : fail()
+      }
+    })
+    const handler = jest.fn()
+    const app = createApp()
+    app.config.errorHandler = handler
+    app.mount(() => h(Foo), root)
+    await timeout()
+    expect(loader).toHaveBeenCalledTimes(2)
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(serializeInner(root)).toBe('error')
+  })
+
+  test('resolved component is shared between instances', async () => {
+    const { loader, resolve } = createLoader()
+    const Foo = defineAsyncComponent(loader)
+    render(h(() => [h(Foo), h(Foo)]), root)
+    resolve(() => 'resolved')
+    await timeout()
+    expect(serializeInner(root)).toBe('<!---->resolvedresolved<!---->')
+    expect(loader).toHaveBeenCalledTimes(1)
+  })
+
+  test('with suspense', async () => {
+    const { loader, resolve } = createLoader()
+    const Foo = defineAsyncComponent({
+      loader,
+      loadingComponent: () => 'loading',
+      delay: 0
+    })
+    render(
+      h(Suspense, null, {
+        default: h(Foo),
+        fallback: 'fallback'
+      }),
+      root
+    )
+    // the suspense fallback is shown instead of the loading component
+    expect(serializeInner(root)).toBe('fallback')
+
+    resolve(() => 'resolved')
+    await timeout()
+    expect(serializeInner(root)).toBe('resolved')
+  })
+
+  test('with suspense: error component without error handler', async () => {
+    const { loader, reject } = createLoader()
+    const Foo = defineAsyncComponent({
+      loader,
+      errorComponent: (props: { error: Error }) => props.error.message
+    })
+    render(
+      h(Suspense, null, {
+        default: h(Foo),
+        fallback: 'fallback'
+      }),
+      root
+    )
+    expect(serializeInner(root)).toBe('fallback')
+
+    reject(new Error('errored'))
+    await timeout()
+    expect(serializeInner(root)).toBe('errored')
+  })
+
+  test('with suspense: suspensible: false', async () => {
+    const { loader, resolve } = createLoader()
+    const Foo = defineAsyncComponent({
+      loader,
+      loadingComponent: () => 'loading',
+      delay: 0,
+      suspensible: false
+    })
+    render(
+      h(Suspense, null, {
+        default: h(Foo),
+        fallback: 'fallback'
+      }),
+      root
+    )
+    expect(serializeInner(root)).toBe('loading')
+
+    resolve(() => 'resolved')
+    await timeout()
+    expect(serializeInner(root)).toBe('resolved')
+  })
+
+  test('warn when the loader resolves to undefined', async () => {
+    const Foo = defineAsyncComponent(() => Promise.resolve(undefined as any))
+    render(h(Foo), root)
+    await timeout()
+    expect(`Async component loader resolved to undefined.`).toHaveBeenWarned()
+  })
+})
@@ -172,3 +172,29 @@ test('with legacy options', () => {
     }
   })
 })
+
+test('type inference w/ emits declaration', () => {
+  createComponent({
+    props: { a: Number },
+    emits: {
+      click: (n: number) => typeof n === 'number',
+      input: (b: string) => b.length > 1
+    },
+    setup(props, { emit }) {
+      emit('click', 1)
+      emit('input', 'foo')
+    },
+    created() {
+      this.$emit('click', 1)
+      this.$emit('input', 'foo')
+    }
+  })
+
+  createComponent({
+    emits: ['click', 'input'],
+    setup(props, { emit }) {
+      emit('click')
+      emit('input', 'foo')
+    }
+  })
+})
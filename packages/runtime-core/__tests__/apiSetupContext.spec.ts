@@ -9,12 +9,15 @@ import {
   watch,
   createComponent,
   triggerEvent,
-  TestElement
+  TestElement,
+  mockWarn
 } from '@vue/runtime-test'
 
 // reference: https://vue-composition-api-rfc.netlify.com/api.html#setup
 
 describe('api: setup context', () => {
+  mockWarn()
+
   it('should expose return values to template render context', () => {
     const Comp = createComponent({
       setup() {
@@ -107,6 +110,46 @@ describe('api: setup context', () => {
     expect(dummy).toBe(1)
   })
 
+  it('setup props should be readonly', async () => {
+    const count = ref(0)
+    const show = ref(true)
+    let childProps: any
+
+    const Parent = {
+      render: () =>
+        h(Child, show.value ? { count: count.value } : { other: true })
+    }
+
+    const Child = {
+      setup(props: any) {
+        childProps = props
+        return () => h('div', props.count)
+      }
+    }
+
+    const root = nodeOps.createElement('div')
+    render(h(Parent), root)
+
+    childProps.count = 2
+    expect(childProps.count).toBe(0)
+    expect(
+      `Set operation on key "count" failed: target is readonly.`
+    ).toHaveBeenWarned()
+
+    // prop updates from the parent should still go through
+    count.value++
+    await nextTick()
+    expect(serializeInner(root)).toMatch(`<div>1</div>`)
+    expect(childProps.count).toBe(1)
+
+    // and so should removed props
+    show.value = false
+    await nextTick()
+    expect('count' in childProps).toBe(false)
+    expect(childProps.other).toBe(true)
+    expect(`target is readonly`).toHaveBeenWarnedTimes(1)
+  })
+
   it('context.attrs', async () => {
     const toggle = ref(true)
 
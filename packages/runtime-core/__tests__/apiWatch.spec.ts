@@ -5,7 +5,9 @@ import {
   nextTick,
   ref,
   h,
-  OperationTypes
+  OperationTypes,
+  effectScope,
+  getCurrentInstance
 } from '../src/index'
 import { render, nodeOps, serializeInner } from '@vue/runtime-test'
 import { ITERATE_KEY, DebuggerEvent } from '@vue/reactivity'
@@ -247,6 +249,40 @@ describe('api: watch', () => {
     expect(assertion).toHaveBeenCalledTimes(2)
   })
 
+  it('flush timing: pre watcher triggered by props update', async () => {
+    const count = ref(0)
+    const calls: string[] = []
+
+    const Child = {
+      props: ['count'],
+      setup(props: { count: number }) {
+        watch(
+          () => props.count,
+          () => {
+            calls.push('watcher')
+          },
+          { flush: 'pre', lazy: true }
+        )
+        return () => {
+          calls.push('render')
+          return props.count
+        }
+      }
+    }
+    const Parent = {
+      render: () => h(Child, { count: count.value })
+    }
+    const root = nodeOps.createElement('div')
+    render(h(Parent), root)
+    calls.length = 0
+
+    count.value++
+    await nextTick()
+    // the watcher runs before the child re-renders with the new props
+    expect(calls).toEqual(['watcher', 'render'])
+    expect(serializeInner(root)).toBe(`1`)
+  })
+
   it('flush timing: sync', async () => {
     const count = ref(0)
     const count2 = ref(0)
@@ -419,4 +455,56 @@ describe('api: watch', () => {
       oldValue: 2
     })
   })
+
+  it('should be stopped with the effect scope it was created in', async () => {
+    const count = ref(0)
+    const spy = jest.fn()
+    const scope = effectScope()
+    scope.run(() => {
+      watch(count, spy, { lazy: true })
+    })
+
+    count.value++
+    await nextTick()
+    expect(spy).toHaveBeenCalledTimes(1)
+
+    scope.stop()
+    count.value++
+    await nextTick()
+    expect(spy).toHaveBeenCalledTimes(1)
+  })
+
+  it('should be stopped with its component', async () => {
+    const count = ref(0)
+    const spy = jest.fn()
+    let scope: any
+    const Comp = {
+      setup() {
+        scope = getCurrentInstance()!.scope
+        watch(count, spy, { lazy: true })
+        // nested scopes are stopped with the component as well
+        effectScope().run(() => {
+          watch(count, spy, { lazy: true })
+        })
+        return () => count.value
+      }
+    }
+    const toggle = ref(true)
+    const root = nodeOps.createElement('div')
+    render(h(() => (toggle.value ? h(Comp) : null)), root)
+    // the watcher and the render effect
+    expect(scope.effects.length).toBe(2)
+    expect(scope.scopes.length).toBe(1)
+
+    count.value++
+    await nextTick()
+    expect(spy).toHaveBeenCalledTimes(2)
+
+    toggle.value = false
+    await nextTick()
+    expect(scope.active).toBe(false)
+    count.value++
+    await nextTick()
+    expect(spy).toHaveBeenCalledTimes(2)
+  })
 })
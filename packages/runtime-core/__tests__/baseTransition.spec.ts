@@ -0,0 +1,292 @@
+import {
+  h,
+  ref,
+  render,
+  nodeOps,
+  serialize,
+  serializeInner,
+  nextTick,
+  createApp,
+  KeepAlive,
+  BaseTransition,
+  BaseTransitionProps,
+  TestElement,
+  Ref,
+  mockWarn
+} from '@vue/runtime-test'
+
+// Fake platform hooks: enter / leave transitions only finish when the
+// recorded `done` callbacks are called.
+function mockProps(extra: BaseTransitionProps = {}) {
+  const cbs = {
+    doneEnter: {} as Record<string, () => void>,
+    doneLeave: {} as Record<string, () => void>
+  }
+  const props: BaseTransitionProps = {
+    onBeforeEnter: jest.fn(),
+    onEnter: jest.fn((el: TestElement, done: () => void) => {
+      cbs.doneEnter[serialize(el)] = done
+    }),
+    onAfterEnter: jest.fn(),
+    onEnterCancelled: jest.fn(),
+    onBeforeLeave: jest.fn(),
+    onLeave: jest.fn((el: TestElement, done: () => void) => {
+      cbs.doneLeave[serialize(el)] = done
+    }),
+    onAfterLeave: jest.fn(),
+    onLeaveCancelled: jest.fn(),
+    ...extra
+  }
+  return { props, cbs }
+}
+
+describe('BaseTransition', () => {
+  mockWarn()
+
+  let root: TestElement
+
+  beforeEach(() => {
+    root = nodeOps.createElement('div')
+  })
+
+  function mount(
+    props: BaseTransitionProps,
+    slot: () => any,
+    toggle: Ref<boolean> = ref(true)
+  ) {
+    const App = {
+      render: () => h(BaseTransition, props, () => slot())
+    }
+    render(h(App), root)
+    return toggle
+  }
+
+  test('enter / leave with v-if', async () => {
+    const toggle = ref(true)
+    const { props, cbs } = mockProps()
+    mount(props, () => (toggle.value ? h('div', 'foo') : null), toggle)
+    // no transition on initial render
+    expect(serializeInner(root)).toBe(`<div>foo</div>`)
+    expect(props.onBeforeEnter).not.toHaveBeenCalled()
+
+    // leave: the element stays until done() is called
+    toggle.value = false
+    await nextTick()
+    expect(props.onBeforeLeave).toHaveBeenCalledTimes(1)
+    expect(props.onLeave).toHaveBeenCalledTimes(1)
+    expect(serializeInner(root)).toBe(`<div>foo</div><!---->`)
+    cbs.doneLeave[`<div>foo</div>`]()
+    expect(props.onAfterLeave).toHaveBeenCalledTimes(1)
+    expect(serializeInner(root)).toBe(`<!---->`)
+
+    // enter
+    toggle.value = true
+    await nextTick()
+    expect(props.onBeforeEnter).toHaveBeenCalledTimes(1)
+    expect(props.onEnter).toHaveBeenCalledTimes(1)
+    expect(props.onAfterEnter).not.toHaveBeenCalled()
+    cbs.doneEnter[`<div>foo</div>`]()
+    expect(props.onAfterEnter).toHaveBeenCalledTimes(1)
+  })
+
+  test('appear', () => {
+    const onAppear = jest.fn()
+    const { props } = mockProps({ appear: true, onAppear })
+    mount(props, () => h('div'))
+    expect(props.onBeforeEnter).toHaveBeenCalledTimes(1)
+    expect(onAppear).toHaveBeenCalledTimes(1)
+    // onAppear does not accept done(), so it finishes synchronously
+    expect(props.onAfterEnter).toHaveBeenCalledTimes(1)
+    expect(props.onEnter).not.toHaveBeenCalled()
+  })
+
+  test('cancel enter when leaving', async () => {
+    const toggle = ref(false)
+    const { props, cbs } = mockProps()
+    mount(props, () => (toggle.value ? h('div') : null), toggle)
+    toggle.value = true
+    await nextTick()
+    toggle.value = false
+    await nextTick()
+    expect(props.onEnterCancelled).toHaveBeenCalledTimes(1)
+    // done() of a cancelled transition is a no-op
+    cbs.doneEnter[`<div></div>`]()
+    expect(props.onAfterEnter).not.toHaveBeenCalled()
+  })
+
+  test('toggle with the same key removes the leaving element early', async () => {
+    const toggle = ref(true)
+    const { props } = mockProps()
+    mount(props, () => (toggle.value ? h('div', { key: 'a' }) : null), toggle)
+    toggle.value = false
+    await nextTick()
+    toggle.value = true
+    await nextTick()
+    expect(props.onAfterLeave).toHaveBeenCalledTimes(1)
+    expect(serializeInner(root)).toBe(`<div></div>`)
+  })
+
+  test('mode: default', async () => {
+    const toggle = ref(true)
+    const { props, cbs } = mockProps()
+    mount(props, () => (toggle.value ? h('div') : h('span')), toggle)
+    toggle.value = false
+    await nextTick()
+    // both transitions run at the same time
+    expect(serializeInner(root)).toBe(`<div></div><span></span>`)
+    expect(props.onLeave).toHaveBeenCalledTimes(1)
+    expect(props.onEnter).toHaveBeenCalledTimes(1)
+    cbs.doneLeave[`<div></div>`]()
+    expect(serializeInner(root)).toBe(`<span></span>`)
+  })
+
+  test('mode: out-in', async () => {
+    const toggle = ref(true)
+    const { props, cbs } = mockProps({ mode: 'out-in' })
+    mount(props, () => (toggle.value ? h('div') : h('span')), toggle)
+    toggle.value = false
+    await nextTick()
+    // the new child is rendered once the old one has left
+    expect(serializeInner(root)).toBe(`<div></div><!---->`)
+    expect(props.onLeave).toHaveBeenCalledTimes(1)
+    expect(props.onEnter).not.toHaveBeenCalled()
+
+    cbs.doneLeave[`<div></div>`]()
+    expect(serializeInner(root)).toBe(`<span></span>`)
+    await nextTick()
+    expect(props.onEnter).toHaveBeenCalledTimes(1)
+  })
+
+  test('mode: in-out', async () => {
+    const toggle = ref(true)
+    const { props, cbs } = mockProps({ mode: 'in-out' })
+    mount(props, () => (toggle.value ? h('div') : h('span')), toggle)
+    toggle.value = false
+    await nextTick()
+    // the old child leaves once the new one has entered
+    expect(serializeInner(root)).toBe(`<div></div><span></span>`)
+    expect(props.onEnter).toHaveBeenCalledTimes(1)
+    expect(props.onLeave).not.toHaveBeenCalled()
+
+    cbs.doneEnter[`<span></span>`]()
+    expect(props.onLeave).toHaveBeenCalledTimes(1)
+    expect(serializeInner(root)).toBe(`<div></div><span></span>`)
+    cbs.doneLeave[`<div></div>`]()
+    expect(serializeInner(root)).toBe(`<span></span>`)
+  })
+
+  describe('with KeepAlive', () => {
+    const One = {
+      activated: jest.fn(),
+      deactivated: jest.fn(),
+      unmounted: jest.fn(),
+      render: () => h('div', 'one')
+    }
+    const Two = { render: () => h('div', 'two') }
+
+    beforeEach(() => {
+      One.activated.mockClear()
+      One.deactivated.mockClear()
+      One.unmounted.mockClear()
+    })
+
+    function mountKeepAlive(props: BaseTransitionProps) {
+      const toggle = ref(true)
+      mount(props, () => h(KeepAlive, null, [h(toggle.value ? One : Two)]))
+      return toggle
+    }
+
+    test('deactivate / activate', async () => {
+      const { props, cbs } = mockProps()
+      const toggle = mountKeepAlive(props)
+      toggle.value = false
+      await nextTick()
+      // the deactivated child is moved out once it has left
+      expect(serializeInner(root)).toBe(`<div>one</div><div>two</div>`)
+      expect(props.onLeave).toHaveBeenCalledTimes(1)
+      expect(props.onEnter).toHaveBeenCalledTimes(1)
+      cbs.doneLeave[`<div>one</div>`]()
+      expect(serializeInner(root)).toBe(`<div>two</div>`)
+      expect(One.deactivated).toHaveBeenCalledTimes(1)
+      expect(One.unmounted).not.toHaveBeenCalled()
+
+      // activating runs the enter transition
+      toggle.value = true
+      await nextTick()
+      // (once on mount, once now)
+      expect(One.activated).toHaveBeenCalledTimes(2)
+      expect(props.onBeforeEnter).toHaveBeenCalledTimes(2)
+      expect(props.onEnter).toHaveBeenCalledTimes(2)
+      expect(serializeInner(root)).toBe(`<div>two</div><div>one</div>`)
+    })
+
+    test('mode: out-in', async () => {
+      const { props, cbs } = mockProps({ mode: 'out-in' })
+      const toggle = mountKeepAlive(props)
+      toggle.value = false
+      await nextTick()
+      expect(serializeInner(root)).toBe(`<div>one</div><!---->`)
+      cbs.doneLeave[`<div>one</div>`]()
+      await nextTick()
+      expect(serializeInner(root)).toBe(`<div>two</div>`)
+      expect(One.deactivated).toHaveBeenCalledTimes(1)
+
+      toggle.value = true
+      await nextTick()
+      expect(serializeInner(root)).toBe(`<div>two</div><!---->`)
+      cbs.doneLeave[`<div>two</div>`]()
+      await nextTick()
+      expect(serializeInner(root)).toBe(`<div>one</div>`)
+      expect(One.activated).toHaveBeenCalledTimes(2)
+      expect(One.unmounted).not.toHaveBeenCalled()
+    })
+  })
+
+  test('unmounting the transition skips the leave transition', () => {
+    const { props } = mockProps()
+    mount(props, () => h('div'))
+    render(null, root)
+    expect(serializeInner(root)).toBe(``)
+    expect(props.onLeave).not.toHaveBeenCalled()
+  })
+
+  test('errors in hooks are handled', async () => {
+    const err = new Error('foo')
+    const handler = jest.fn()
+    const app = createApp()
+    app.config.errorHandler = handler
+    const toggle = ref(true)
+    app.mount(
+      {
+        render: () =>
+          h(
+            BaseTransition,
+            {
+              onLeave: () => {
+                throw err
+              }
+            },
+            () => (toggle.value ? h('div') : null)
+          )
+      },
+      root
+    )
+    toggle.value = false
+    await nextTick()
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(handler.mock.calls[0][0]).toBe(err)
+    expect(handler.mock.calls[0][2]).toBe('transition hook')
+  })
+
+  test('warn on multiple children', () => {
+    mount({}, () => [h('div'), h('div')])
+    expect(
+      '<transition> can only be used on a single element or component.'
+    ).toHaveBeenWarned()
+  })
+
+  test('warn on invalid mode', () => {
+    mount({ mode: 'foo' as any }, () => h('div'))
+    expect(`invalid <transition> mode: foo`).toHaveBeenWarned()
+  })
+})
@@ -0,0 +1,118 @@
+// Note: listener fallthrough of declared emits is tested in
+// ./rendererAttrsFallthrough.spec.ts.
+
+import {
+  render,
+  createComponent,
+  h,
+  nodeOps,
+  mockWarn
+} from '@vue/runtime-test'
+
+describe('emits option', () => {
+  mockWarn()
+
+  test('trigger both raw event and capitalize handlers', () => {
+    const Foo = createComponent({
+      emits: ['foo'],
+      render() {},
+      created() {
+        this.$emit('foo', 1)
+      }
+    })
+    const onfoo = jest.fn()
+    const onFoo = jest.fn()
+    render(h(Foo, { onfoo }), nodeOps.createElement('div'))
+    expect(onfoo).toHaveBeenCalledWith(1)
+    render(h(Foo, { onFoo }), nodeOps.createElement('div'))
+    expect(onFoo).toHaveBeenCalledWith(1)
+  })
+
+  test('warning for undeclared event (array)', () => {
+    const Foo = createComponent({
+      emits: ['foo'],
+      render() {},
+      created() {
+        // @ts-ignore
+        this.$emit('bar')
+      }
+    })
+    render(h(Foo), nodeOps.createElement('div'))
+    expect(
+      `Component emitted event "bar" but it is neither declared`
+    ).toHaveBeenWarned()
+  })
+
+  test('warning for undeclared event (object)', () => {
+    const Foo = createComponent({
+      emits: {
+        foo: null
+      },
+      render() {},
+      created() {
+        // @ts-ignore
+        this.$emit('bar')
+      }
+    })
+    render(h(Foo), nodeOps.createElement('div'))
+    expect(
+      `Component emitted event "bar" but it is neither declared`
+    ).toHaveBeenWarned()
+  })
+
+  test('should not warn if has equivalent onXXX prop', () => {
+    const Foo = createComponent({
+      props: ['onFoo'],
+      emits: [],
+      render() {},
+      created() {
+        // @ts-ignore
+        this.$emit('foo')
+      }
+    })
+    render(h(Foo), nodeOps.createElement('div'))
+    expect(
+      `Component emitted event "foo" but it is neither declared`
+    ).not.toHaveBeenWarned()
+  })
+
+  test('validator warning', () => {
+    const Foo = createComponent({
+      emits: {
+        foo: (arg: number) => arg > 0
+      },
+      render() {},
+      created() {
+        this.$emit('foo', -1)
+      }
+    })
+    render(h(Foo), nodeOps.createElement('div'))
+    expect(`event validation failed for event "foo"`).toHaveBeenWarned()
+  })
+
+  test('no warnings without emits option', () => {
+    const Foo = createComponent({
+      render() {},
+      created() {
+        this.$emit('bar')
+      }
+    })
+    render(h(Foo), nodeOps.createElement('div'))
+    expect(`Component emitted event`).not.toHaveBeenWarned()
+  })
+
+  test('functional component', () => {
+    const onFoo = jest.fn()
+    const Foo = (props: any, { emit }: any) => {
+      emit('foo', 1)
+      emit('bar')
+      return null
+    }
+    Foo.emits = ['foo']
+    render(h(Foo, { onFoo }), nodeOps.createElement('div'))
+    expect(onFoo).toHaveBeenCalledWith(1)
+    expect(
+      `Component emitted event "bar" but it is neither declared`
+    ).toHaveBeenWarned()
+  })
+})
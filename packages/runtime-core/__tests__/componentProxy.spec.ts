@@ -2,6 +2,7 @@ import {
   createApp,
   getCurrentInstance,
   nodeOps,
+  serializeInner,
   mockWarn
 } from '@vue/runtime-test'
 import { ComponentInternalInstance } from '../src/component'
@@ -129,4 +130,42 @@ describe('component: proxy', () => {
     expect(instanceProxy.foo).toBe(1)
     expect(instance!.sink.foo).toBe(1)
   })
+
+  it('globalProperties', () => {
+    const app = createApp()
+    app.config.globalProperties.foo = 1
+    app.config.globalProperties.bar = 1
+    let instanceProxy: any
+    const Comp = {
+      setup() {
+        return () => null
+      },
+      mounted() {
+        instanceProxy = this
+      }
+    }
+    app.mount(Comp, nodeOps.createElement('div'))
+    expect(instanceProxy.foo).toBe(1)
+
+    // instance properties take priority over globals
+    instanceProxy.bar = 2
+    expect(instanceProxy.bar).toBe(2)
+    expect(app.config.globalProperties.bar).toBe(1)
+  })
+
+  it('globalProperties are available during render', () => {
+    const app = createApp()
+    app.config.globalProperties.$t = (key: string) => `translated ${key}`
+    const root = nodeOps.createElement('div')
+    app.mount(
+      {
+        render(this: any) {
+          return this.$t('hello')
+        }
+      },
+      root
+    )
+    expect(serializeInner(root)).toBe(`translated hello`)
+    expect(`was accessed during render`).not.toHaveBeenWarned()
+  })
 })
@@ -0,0 +1,185 @@
+import {
+  createApp,
+  h,
+  ref,
+  reactive,
+  provide,
+  nextTick,
+  nodeOps,
+  serializeInner,
+  setDevtoolsHook,
+  getComponentTree,
+  getCurrentInstance,
+  triggerEvent,
+  TestElement,
+  ComponentInternalInstance,
+  SetupContext
+} from '@vue/runtime-test'
+
+describe('devtools', () => {
+  let hook: { emit: jest.Mock }
+
+  beforeEach(() => {
+    hook = { emit: jest.fn() }
+    ;(window as any).__VUE_DEVTOOLS_GLOBAL_HOOK__ = hook
+  })
+
+  afterEach(() => {
+    delete (window as any).__VUE_DEVTOOLS_GLOBAL_HOOK__
+    setDevtoolsHook(undefined)
+  })
+
+  const events = () => hook.emit.mock.calls.map(call => call[0])
+
+  test('app init and unmount', () => {
+    const app = createApp()
+    const root = nodeOps.createElement('div')
+    app.mount(() => h('div'), root)
+    expect(hook.emit).toHaveBeenCalledWith('app:init', app, __VERSION__)
+
+    app.unmount()
+    expect(hook.emit).toHaveBeenLastCalledWith('app:unmount', app)
+  })
+
+  test('component added, updated and removed', async () => {
+    const count = ref(0)
+    const Child = {
+      name: 'child',
+      render: () => h('div', count.value)
+    }
+    const toggle = ref(true)
+    const App = {
+      render: () => (toggle.value ? h(Child) : null)
+    }
+    const app = createApp()
+    const root = nodeOps.createElement('div')
+    app.mount(App, root)
+    expect(events()).toEqual([
+      'component:added', // Child
+      'component:added', // App
+      'app:init'
+    ])
+    const [, appArg, uid, parentUid, child] = hook.emit.mock.calls[0]
+    expect(appArg).toBe(app)
+    expect(child.type).toBe(Child)
+    expect(uid).toBe(child.uid)
+    expect(parentUid).toBe(child.parent.uid)
+
+    hook.emit.mockClear()
+    count.value++
+    await nextTick()
+    expect(serializeInner(root)).toBe(`<div>1</div>`)
+    expect(hook.emit).toHaveBeenCalledTimes(1)
+    expect(hook.emit).toHaveBeenCalledWith(
+      'component:updated',
+      app,
+      child.uid,
+      parentUid,
+      child
+    )
+
+    hook.emit.mockClear()
+    toggle.value = false
+    await nextTick()
+    expect(events()).toEqual(['component:removed', 'component:updated'])
+    expect(hook.emit.mock.calls[0][4]).toBe(child)
+  })
+
+  test('component emit', () => {
+    let instance: ComponentInternalInstance
+    const Comp = {
+      setup(_: any, { emit }: SetupContext) {
+        instance = getCurrentInstance()!
+        return () => h('button', { onClick: () => emit('foo', 1, 2) })
+      }
+    }
+    const app = createApp()
+    const root = nodeOps.createElement('div')
+    app.mount(Comp, root)
+    triggerEvent(root.children[0] as TestElement, 'click')
+    expect(hook.emit).toHaveBeenLastCalledWith(
+      'component:emit',
+      app,
+      instance!,
+      'foo',
+      [1, 2]
+    )
+  })
+
+  test('does not emit when app.config.devtools is disabled', () => {
+    const app = createApp()
+    app.config.devtools = false
+    app.mount(() => h('div'), nodeOps.createElement('div'))
+    expect(hook.emit).not.toHaveBeenCalled()
+  })
+
+  test('setDevtoolsHook', () => {
+    const explicitHook = { emit: jest.fn() }
+    setDevtoolsHook(explicitHook)
+    createApp().mount(() => h('div'), nodeOps.createElement('div'))
+    expect(explicitHook.emit).toHaveBeenCalled()
+    expect(hook.emit).not.toHaveBeenCalled()
+  })
+
+  test('getComponentTree', () => {
+    const key = Symbol('key')
+    const Child = {
+      name: 'child-comp',
+      props: { msg: String },
+      inject: ['theme'],
+      data: () => ({ local: 1 }),
+      computed: {
+        upper(this: any): string {
+          return this.msg.toUpperCase()
+        }
+      },
+      methods: {
+        foo() {}
+      },
+      setup() {
+        return { state: reactive({ a: 1 }), count: ref(2) }
+      },
+      render: () => h('div')
+    }
+    let root: ComponentInternalInstance
+    const App = {
+      name: 'app',
+      setup() {
+        root = getCurrentInstance()!
+        provide('theme', 'dark')
+        provide(key, 1)
+      },
+      render: () => [
+        h(Child, { msg: 'hi' }),
+        h('div', [h(Child, { msg: 'b' })])
+      ]
+    }
+    createApp().mount(App, nodeOps.createElement('div'))
+
+    expect(getComponentTree(root!)).toEqual({
+      uid: root!.uid,
+      name: 'App',
+      props: {},
+      setupState: {},
+      data: {},
+      computed: {},
+      provides: { theme: 'dark', [key as any]: 1 },
+      children: [
+        {
+          uid: expect.any(Number),
+          name: 'ChildComp',
+          props: { msg: 'hi' },
+          setupState: { state: { a: 1 }, count: 2 },
+          data: { local: 1 },
+          computed: { upper: 'HI' },
+          provides: {},
+          children: []
+        },
+        expect.objectContaining({
+          name: 'ChildComp',
+          props: { msg: 'b' }
+        })
+      ]
+    })
+  })
+})
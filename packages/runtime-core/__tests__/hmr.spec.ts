@@ -0,0 +1,206 @@
+import { HMRRuntime, ComponentOptions } from '../src'
+import * as runtimeTest from '@vue/runtime-test'
+import {
+  createApp,
+  render,
+  nodeOps,
+  h,
+  serializeInner,
+  triggerEvent,
+  TestElement,
+  nextTick
+} from '@vue/runtime-test'
+import { baseCompile } from '@vue/compiler-core'
+import { isHmrUpdating } from '../src/hmr'
+
+declare var __VUE_HMR_RUNTIME__: HMRRuntime
+const { createRecord, rerender, reload } = __VUE_HMR_RUNTIME__
+
+function compileToFunction(template: string) {
+  const { code } = baseCompile(template)
+  return new Function('Vue', code)(runtimeTest)
+}
+
+describe('hot module replacement', () => {
+  test('createRecord', () => {
+    expect(createRecord('test1')).toBe(true)
+    // if id has already been created, should return false
+    expect(createRecord('test1')).toBe(false)
+  })
+
+  test('rerender', async () => {
+    const root = nodeOps.createElement('div')
+    const parentId = 'test2-parent'
+    const childId = 'test2-child'
+
+    const Child: ComponentOptions = {
+      __hmrId: childId,
+      render: compileToFunction(`<slot/>`)
+    }
+    createRecord(childId)
+
+    const Parent: ComponentOptions = {
+      __hmrId: parentId,
+      data() {
+        return { count: 0 }
+      },
+      components: { Child },
+      render: compileToFunction(
+        `<div @click="count++">{{ count }}<Child>{{ count }}</Child></div>`
+      )
+    }
+    createRecord(parentId)
+
+    render(h(Parent), root)
+    expect(serializeInner(root)).toBe(`<div>0<!---->0<!----></div>`)
+
+    // Perform some state change. This change should be preserved after the
+    // re-render!
+    triggerEvent(root.children[0] as TestElement, 'click')
+    await nextTick()
+    expect(serializeInner(root)).toBe(`<div>1<!---->1<!----></div>`)
+
+    // Update text while preserving state
+    rerender(
+      parentId,
+      compileToFunction(
+        `<div @click="count++">{{ count }}!<Child>{{ count }}</Child></div>`
+      )
+    )
+    expect(serializeInner(root)).toBe(`<div>1!<!---->1<!----></div>`)
+
+    // Should force child update on slot content change
+    rerender(
+      parentId,
+      compileToFunction(
+        `<div @click="count++">{{ count }}!<Child>{{ count }}!</Child></div>`
+      )
+    )
+    expect(serializeInner(root)).toBe(`<div>1!<!---->1!<!----></div>`)
+
+    // Should force update element children despite block optimization
+    rerender(
+      parentId,
+      compileToFunction(
+        `<div @click="count++">{{ count }}<span>{{ count }}</span>
+        <Child>{{ count }}!</Child>
+      </div>`
+      )
+    )
+    expect(serializeInner(root)).toBe(
+      `<div>1<span>1</span><!---->1!<!----></div>`
+    )
+
+    // Should force update child slot elements
+    rerender(
+      parentId,
+      compileToFunction(
+        `<div @click="count++">
+        <Child><span>{{ count }}</span></Child>
+      </div>`
+      )
+    )
+    expect(serializeInner(root)).toBe(`<div><!----><span>1</span><!----></div>`)
+  })
+
+  test('rerender resets the update flag when rendering throws', () => {
+    const root = nodeOps.createElement('div')
+    const id = 'test-rerender-error'
+    const Comp: ComponentOptions = {
+      __hmrId: id,
+      render: () => 'foo'
+    }
+    createRecord(id)
+    render(h(Comp), root)
+
+    expect(() =>
+      rerender(id, () => {
+        throw new Error('render error')
+      })
+    ).toThrow('render error')
+    expect(isHmrUpdating).toBe(false)
+  })
+
+  test('reload', async () => {
+    const root = nodeOps.createElement('div')
+    const childId = 'test3-child'
+    const unmountSpy = jest.fn()
+    const mountSpy = jest.fn()
+
+    const Child: ComponentOptions = {
+      __hmrId: childId,
+      data() {
+        return { count: 0 }
+      },
+      unmounted: unmountSpy,
+      render: compileToFunction(`<div @click="count++">{{ count }}</div>`)
+    }
+    createRecord(childId)
+
+    const Parent: ComponentOptions = {
+      data() {
+        return { msg: 'parent' }
+      },
+      render(this: any) {
+        return [h('p', this.msg), h(Child)]
+      }
+    }
+
+    const parent: any = createApp().mount(Parent, root)
+    // parent state should be preserved across the reload
+    parent.msg = 'changed'
+    await nextTick()
+    expect(serializeInner(root)).toBe(
+      `<!----><p>changed</p><div>0</div><!---->`
+    )
+
+    reload(childId, {
+      __hmrId: childId,
+      data() {
+        return { count: 1 }
+      },
+      mounted: mountSpy,
+      render: compileToFunction(`<div @click="count++">{{ count }}</div>`)
+    })
+    await nextTick()
+    expect(serializeInner(root)).toBe(
+      `<!----><p>changed</p><div>1</div><!---->`
+    )
+    expect(unmountSpy).toHaveBeenCalledTimes(1)
+    expect(mountSpy).toHaveBeenCalledTimes(1)
+  })
+
+  test('reload root component', () => {
+    const root = nodeOps.createElement('div')
+    const id = 'test4-root'
+    const Root: ComponentOptions = {
+      __hmrId: id,
+      render: () => 'foo'
+    }
+    createRecord(id)
+
+    const app = createApp()
+    app.mount(Root, root)
+    expect(serializeInner(root)).toBe(`foo`)
+
+    reload(id, {
+      __hmrId: id,
+      render: () => 'bar'
+    })
+    expect(serializeInner(root)).toBe(`bar`)
+  })
+
+  test('unmounted app is not reloaded', () => {
+    const root = nodeOps.createElement('div')
+    const Root: ComponentOptions = {
+      render: () => 'foo'
+    }
+    const app = createApp()
+    app.mount(Root, root)
+    expect(app._context.reload).toBeDefined()
+
+    app.unmount()
+    expect(app._context.reload).toBeUndefined()
+    expect(serializeInner(root)).toBe(``)
+  })
+})
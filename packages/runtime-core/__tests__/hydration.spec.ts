@@ -0,0 +1,426 @@
+// using DOM renderer because hydration is DOM-specific
+import {
+  createSSRApp,
+  h,
+  ref,
+  nextTick,
+  VNode,
+  Portal,
+  createCommentVNode,
+  withDirectives,
+  onMounted
+} from '@vue/runtime-dom'
+import { renderToString } from '@vue/server-renderer'
+import { mockWarn } from '@vue/runtime-test'
+
+function mountWithHydration(html: string, render: () => any) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  let vnode: VNode
+  const app = createSSRApp()
+  app.mount(
+    {
+      render() {
+        return (vnode = render())
+      }
+    },
+    container
+  )
+  return { vnode: vnode!, container, app }
+}
+
+const triggerEvent = (type: string, el: Element) => {
+  const event = new Event(type)
+  el.dispatchEvent(event)
+}
+
+describe('SSR hydration', () => {
+  mockWarn()
+
+  test('text', async () => {
+    const msg = ref('foo')
+    const container = document.createElement('div')
+    container.innerHTML = 'foo'
+    const text = container.firstChild
+    createSSRApp().mount({ render: () => msg.value }, container)
+    expect(container.firstChild).toBe(text)
+    msg.value = 'bar'
+    await nextTick()
+    expect(container.firstChild).toBe(text)
+    expect(container.textContent).toBe('bar')
+  })
+
+  test('comment', () => {
+    const { vnode, container } = mountWithHydration('<!--foo-->', () =>
+      createCommentVNode('foo')
+    )
+    expect(vnode.el).toBe(container.firstChild)
+    expect(vnode.el.nodeType).toBe(8) // comment
+  })
+
+  test('element with text children', async () => {
+    const msg = ref('foo')
+    const { vnode, container } = mountWithHydration(
+      '<div class="foo">foo</div>',
+      () => h('div', { class: msg.value }, msg.value)
+    )
+    expect(vnode.el).toBe(container.firstChild)
+    msg.value = 'bar'
+    await nextTick()
+    expect(container.innerHTML).toBe(`<div class="bar">bar</div>`)
+  })
+
+  test('element with elements children', async () => {
+    const msg = ref('foo')
+    const fn = jest.fn()
+    const { vnode, container } = mountWithHydration(
+      '<div><span>foo</span><span class="foo"></span></div>',
+      () =>
+        h('div', [
+          h('span', msg.value),
+          h('span', { class: msg.value, onClick: fn })
+        ])
+    )
+    const children = vnode.children as VNode[]
+    expect(vnode.el).toBe(container.firstChild)
+    expect(children[0].el).toBe(container.firstChild!.childNodes[0])
+    expect(children[1].el).toBe(container.firstChild!.childNodes[1])
+
+    // event handler
+    triggerEvent('click', children[1].el)
+    expect(fn).toHaveBeenCalled()
+
+    msg.value = 'bar'
+    await nextTick()
+    expect(container.innerHTML).toBe(
+      `<div><span>bar</span><span class="bar"></span></div>`
+    )
+  })
+
+  test('adjacent text nodes merged by the server are split', async () => {
+    const msg = ref('foo')
+    const { vnode, container } = mountWithHydration('<div>foobar</div>', () =>
+      h('div', [msg.value, 'bar'])
+    )
+    const children = vnode.children as VNode[]
+    expect(children[0].el.data).toBe('foo')
+    expect(children[1].el.data).toBe('bar')
+    msg.value = 'baz'
+    await nextTick()
+    expect(container.innerHTML).toBe(`<div>bazbar</div>`)
+  })
+
+  test('Fragment', async () => {
+    const msg = ref('foo')
+    const fn = jest.fn()
+    const { vnode, container } = mountWithHydration(
+      '<div><!--[--><span>foo</span><!--[--><span class="foo"></span><!--]--><!--]--></div>',
+      () =>
+        h('div', [
+          [h('span', msg.value), [h('span', { class: msg.value, onClick: fn })]]
+        ])
+    )
+    const root = vnode.children as VNode[]
+    const fragment = root[0]
+    const el = container.firstChild!
+    expect(fragment.el).toBe(el.childNodes[0])
+    expect(fragment.anchor).toBe(el.childNodes[5])
+    const span1 = (fragment.children as VNode[])[0]
+    expect(span1.el).toBe(el.childNodes[1])
+    const nested = (fragment.children as VNode[])[1]
+    expect(nested.el).toBe(el.childNodes[2])
+    expect(nested.anchor).toBe(el.childNodes[4])
+
+    triggerEvent('click', (nested.children as VNode[])[0].el)
+    expect(fn).toHaveBeenCalled()
+
+    msg.value = 'bar'
+    await nextTick()
+    expect(container.innerHTML).toBe(
+      `<div><!--[--><span>bar</span><!--[--><span class="bar"></span><!--]--><!--]--></div>`
+    )
+  })
+
+  test('Portal', async () => {
+    const portalContainer = document.createElement('div')
+    portalContainer.id = 'portal'
+    portalContainer.innerHTML = `<span>foo</span><span class="foo"></span>`
+    document.body.appendChild(portalContainer)
+
+    const msg = ref('foo')
+    const fn = jest.fn()
+    const { vnode, container } = mountWithHydration('<!---->', () =>
+      h(Portal, { target: '#portal' }, [
+        h('span', msg.value),
+        h('span', { class: msg.value, onClick: fn })
+      ])
+    )
+
+    expect(vnode.el).toBe(container.firstChild)
+    expect((vnode.children as VNode[])[0].el).toBe(
+      portalContainer.childNodes[0]
+    )
+    expect((vnode.children as VNode[])[1].el).toBe(
+      portalContainer.childNodes[1]
+    )
+
+    triggerEvent('click', portalContainer.childNodes[1] as Element)
+    expect(fn).toHaveBeenCalled()
+
+    msg.value = 'bar'
+    await nextTick()
+    expect(portalContainer.innerHTML).toBe(
+      `<span>bar</span><span class="bar"></span>`
+    )
+    document.body.removeChild(portalContainer)
+  })
+
+  test('multiple Portals with the same target', async () => {
+    const portalContainer = document.createElement('div')
+    portalContainer.id = 'portal2'
+    portalContainer.innerHTML = `<span>foo</span><span>bar</span>`
+    document.body.appendChild(portalContainer)
+
+    const msg = ref('foo')
+    const { vnode } = mountWithHydration('<div><!----><!----></div>', () =>
+      h('div', [
+        h(Portal, { target: '#portal2' }, [h('span', msg.value)]),
+        h(Portal, { target: '#portal2' }, [h('span', 'bar')])
+      ])
+    )
+    const [portal1, portal2] = vnode.children as VNode[]
+    expect((portal1.children as VNode[])[0].el).toBe(
+      portalContainer.childNodes[0]
+    )
+    expect((portal2.children as VNode[])[0].el).toBe(
+      portalContainer.childNodes[1]
+    )
+
+    msg.value = 'baz'
+    await nextTick()
+    expect(portalContainer.innerHTML).toBe(`<span>baz</span><span>bar</span>`)
+    document.body.removeChild(portalContainer)
+  })
+
+  test('components', async () => {
+    const mounted = jest.fn()
+    const Child = {
+      props: ['count'],
+      setup(props: { count: number }) {
+        onMounted(mounted)
+        // mutates state in the child to make sure it keeps updating
+        const inner = ref(0)
+        return () =>
+          h(
+            'button',
+            { onClick: () => inner.value++ },
+            `${props.count}-${inner.value}`
+          )
+      }
+    }
+    const count = ref(0)
+    const { container } = mountWithHydration(
+      '<div><span>0</span><button>0-0</button></div>',
+      () => h('div', [h('span', count.value), h(Child, { count: count.value })])
+    )
+    const button = container.querySelector('button')!
+    // the existing node is adopted
+    expect(container.innerHTML).toBe(
+      `<div><span>0</span><button>0-0</button></div>`
+    )
+    expect(mounted).toHaveBeenCalledTimes(1)
+
+    triggerEvent('click', button)
+    await nextTick()
+    expect(container.innerHTML).toBe(
+      `<div><span>0</span><button>0-1</button></div>`
+    )
+
+    count.value++
+    await nextTick()
+    expect(container.querySelector('button')).toBe(button)
+    expect(container.innerHTML).toBe(
+      `<div><span>1</span><button>1-1</button></div>`
+    )
+  })
+
+  test('directives', () => {
+    const mounted = jest.fn()
+    const dir = { mounted }
+    const { container } = mountWithHydration('<div>foo</div>', () =>
+      withDirectives(h('div', 'foo'), [[dir, 1]])
+    )
+    expect(mounted).toHaveBeenCalledTimes(1)
+    expect(mounted.mock.calls[0][0]).toBe(container.firstChild)
+  })
+
+  test('hydrates output from the server renderer', async () => {
+    const count = ref(0)
+    const Child = {
+      setup() {
+        return () =>
+          h('button', { onClick: () => count.value++ }, [
+            'count: ',
+            count.value
+          ])
+      }
+    }
+    const App = {
+      setup() {
+        return () => h('div', [h('p', 'hello'), [h(Child), h('b', 'after')]])
+      }
+    }
+    const container = document.createElement('div')
+    container.innerHTML = await renderToString(h(App))
+    const html = container.innerHTML
+    const nodes = Array.from(container.querySelectorAll('*'))
+
+    createSSRApp().mount(App, container)
+    expect(container.innerHTML).toBe(html)
+
+    triggerEvent('click', container.querySelector('button')!)
+    await nextTick()
+    expect(container.querySelector('button')!.textContent).toBe('count: 1')
+    // no nodes were replaced
+    expect(Array.from(container.querySelectorAll('*'))).toEqual(nodes)
+  })
+
+  test('empty container', () => {
+    const container = document.createElement('div')
+    createSSRApp().mount({ render: () => h('div', 'foo') }, container)
+    expect(container.innerHTML).toBe(`<div>foo</div>`)
+    expect(`container is empty`).toHaveBeenWarned()
+  })
+
+  describe('mismatch handling', () => {
+    test('text content', async () => {
+      const msg = ref('foo')
+      const { container, app } = mountWithHydration(`<div>bar</div>`, () =>
+        h('div', [msg.value])
+      )
+      expect(container.innerHTML).toBe(`<div>foo</div>`)
+      expect(`Hydration text mismatch`).toHaveBeenWarned()
+      expect(app.hydrationMismatches).toBe(1)
+
+      // the fixed node keeps being patched
+      msg.value = 'baz'
+      await nextTick()
+      expect(container.innerHTML).toBe(`<div>baz</div>`)
+    })
+
+    test('element text children', () => {
+      const { container, app } = mountWithHydration(`<div>bar</div>`, () =>
+        h('div', 'foo')
+      )
+      expect(container.innerHTML).toBe(`<div>foo</div>`)
+      expect(`Hydration text content mismatch in <div>`).toHaveBeenWarned()
+      expect(app.hydrationMismatches).toBe(1)
+    })
+
+    test('tag mismatch', async () => {
+      const msg = ref('foo')
+      const { container, app } = mountWithHydration(
+        `<div><span>foo</span><p>bar</p></div>`,
+        () => h('div', [h('p', msg.value), h('p', 'bar')])
+      )
+      const bar = container.firstChild!.childNodes[1]
+      expect(container.innerHTML).toBe(`<div><p>foo</p><p>bar</p></div>`)
+      // only the mismatched node is replaced
+      expect(container.firstChild!.childNodes[1]).toBe(bar)
+      expect(`Hydration node mismatch`).toHaveBeenWarned()
+      expect(app.hydrationMismatches).toBe(1)
+
+      msg.value = 'baz'
+      await nextTick()
+      expect(container.innerHTML).toBe(`<div><p>baz</p><p>bar</p></div>`)
+    })
+
+    test('excessive children', () => {
+      const { container, app } = mountWithHydration(
+        `<div><span>foo</span><span>bar</span></div>`,
+        () => h('div', [h('span', 'foo')])
+      )
+      expect(container.innerHTML).toBe(`<div><span>foo</span></div>`)
+      expect(`Hydration children mismatch in <div>`).toHaveBeenWarned()
+      expect(app.hydrationMismatches).toBe(1)
+    })
+
+    test('missing children', () => {
+      const { container, app } = mountWithHydration(
+        `<div><span>foo</span></div>`,
+        () => h('div', [h('span', 'foo'), h('span', 'bar')])
+      )
+      expect(container.innerHTML).toBe(
+        `<div><span>foo</span><span>bar</span></div>`
+      )
+      expect(`Hydration node mismatch`).toHaveBeenWarned()
+      expect(app.hydrationMismatches).toBe(1)
+    })
+
+    test('missing fragment anchors', async () => {
+      const msg = ref('foo')
+      const { vnode, container, app } = mountWithHydration(
+        `<div><span>foo</span><span>bar</span></div>`,
+        () => h('div', [[h('span', msg.value), h('span', 'bar')]])
+      )
+      const fragment = (vnode.children as VNode[])[0]
+      expect(container.innerHTML).toBe(
+        `<div><!----><span>foo</span><span>bar</span><!----></div>`
+      )
+      expect(fragment.el).toBe(container.firstChild!.firstChild)
+      expect(fragment.anchor).toBe(container.firstChild!.lastChild)
+      expect(`Hydration anchor mismatch`).toHaveBeenWarned()
+      expect(app.hydrationMismatches).toBe(2)
+
+      msg.value = 'baz'
+      await nextTick()
+      expect(container.innerHTML).toBe(
+        `<div><!----><span>baz</span><span>bar</span><!----></div>`
+      )
+    })
+
+    test('fragment replaced by an element', () => {
+      const { container, app } = mountWithHydration(
+        `<div><!--[--><span>foo</span><!--[--><b>bar</b><!--]--><!--]--><p>baz</p></div>`,
+        () => h('div', [h('span', 'foo'), h('p', 'baz')])
+      )
+      // the whole fragment is removed, including the nested one
+      expect(container.innerHTML).toBe(`<div><span>foo</span><p>baz</p></div>`)
+      expect(`Hydration node mismatch`).toHaveBeenWarned()
+      expect(app.hydrationMismatches).toBe(1)
+    })
+
+    test('warning includes component trace', () => {
+      const Child = {
+        name: 'Child',
+        render: () => h('span', 'foo')
+      }
+      const container = document.createElement('div')
+      container.innerHTML = `<div><p>foo</p></div>`
+      const handler = jest.fn()
+      const app = createSSRApp()
+      app.config.warnHandler = handler
+      app.mount({ render: () => h('div', [h(Child)]) }, container)
+      expect(container.innerHTML).toBe(`<div><span>foo</span></div>`)
+      expect(handler).toHaveBeenCalledTimes(1)
+      const [msg, instance, trace] = handler.mock.calls[0]
+      expect(msg).toMatch(`Hydration node mismatch`)
+      expect(instance.$options).toBe(Child)
+      expect(trace).toMatch(`<Child>`)
+    })
+
+    test('counter is updated in production', () => {
+      ;(global as any).__DEV__ = false
+      try {
+        const { container, app } = mountWithHydration(
+          `<div><span>bar</span>extra</div>`,
+          () => h('div', [h('span', 'foo')])
+        )
+        expect(container.innerHTML).toBe(`<div><span>foo</span></div>`)
+        expect(app.hydrationMismatches).toBe(2)
+      } finally {
+        ;(global as any).__DEV__ = true
+      }
+    })
+  })
+})
@@ -0,0 +1,80 @@
+import {
+  createApp,
+  h,
+  ref,
+  nextTick,
+  nodeOps,
+  serializeInner
+} from '@vue/runtime-test'
+import { performance as nodePerformance } from 'perf_hooks'
+
+describe('app.config.performance', () => {
+  let descriptor: PropertyDescriptor | undefined
+
+  beforeAll(() => {
+    // JSDOM's performance does not implement User Timing: record into Node's
+    descriptor = Object.getOwnPropertyDescriptor(global, 'performance')
+    Object.defineProperty(global, 'performance', {
+      value: nodePerformance,
+      configurable: true
+    })
+  })
+
+  afterAll(() => {
+    if (descriptor) {
+      Object.defineProperty(global, 'performance', descriptor)
+    }
+  })
+
+  afterEach(() => {
+    nodePerformance.clearMarks()
+    nodePerformance.clearMeasures()
+  })
+
+  const getMeasures = () =>
+    nodePerformance.getEntriesByType('measure').map(entry => entry.name)
+
+  function mount(performance: boolean) {
+    const count = ref(0)
+    const Child = {
+      name: 'child',
+      render: () => h('span', count.value)
+    }
+    const App = {
+      name: 'app',
+      render: () => h('div', [h(Child)])
+    }
+    const app = createApp()
+    app.config.performance = performance
+    const root = nodeOps.createElement('div')
+    app.mount(App, root)
+    return { count, root }
+  }
+
+  test('records init, render, patch and mount of each component', () => {
+    mount(true)
+    const measures = getMeasures()
+    ;['App', 'Child'].forEach(name => {
+      expect(measures).toContain(`<${name}> init`)
+      expect(measures).toContain(`<${name}> render`)
+      expect(measures).toContain(`<${name}> patch`)
+      expect(measures).toContain(`<${name}> mount`)
+    })
+    // marks are cleaned up once measured
+    expect(nodePerformance.getEntriesByType('mark')).toHaveLength(0)
+  })
+
+  test('records render and patch on update', async () => {
+    const { count, root } = mount(true)
+    nodePerformance.clearMeasures()
+    count.value++
+    await nextTick()
+    expect(serializeInner(root)).toBe(`<div><span>1</span></div>`)
+    expect(getMeasures()).toEqual([`<Child> render`, `<Child> patch`])
+  })
+
+  test('records nothing when disabled', () => {
+    mount(false)
+    expect(getMeasures()).toHaveLength(0)
+  })
+})
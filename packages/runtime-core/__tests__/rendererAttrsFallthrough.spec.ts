@@ -324,4 +324,34 @@ describe('attribute fallthrough', () => {
       `<!----><div></div><div class="parent"></div><!---->`
     )
   })
+
+  it('should not fallthrough listeners of declared emits', () => {
+    const onClick = jest.fn()
+    const onInput = jest.fn()
+    const Parent = {
+      render() {
+        return h(Child, { foo: 1, class: 'parent', onClick, onInput })
+      }
+    }
+
+    const Child = createComponent({
+      props: ['foo'],
+      emits: ['click'],
+      render() {
+        return h('button', this.foo)
+      }
+    })
+
+    const root = document.createElement('div')
+    document.body.appendChild(root)
+    render(h(Parent), root)
+
+    const node = root.children[0] as HTMLElement
+    expect(node.className).toBe('parent')
+    node.dispatchEvent(new CustomEvent('click'))
+    expect(onClick).not.toHaveBeenCalled()
+    // undeclared listeners still fall through
+    node.dispatchEvent(new CustomEvent('input'))
+    expect(onInput).toHaveBeenCalledTimes(1)
+  })
 })
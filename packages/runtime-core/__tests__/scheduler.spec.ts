@@ -0,0 +1,300 @@
+import {
+  queueJob,
+  queuePreFlushCb,
+  queuePostFlushCb,
+  invalidateJob,
+  nextTick,
+  enableTimeSlicing,
+  disableTimeSlicing,
+  SchedulerJob
+} from '../src/scheduler'
+import { h, ref, render, nodeOps, serializeInner } from '@vue/runtime-test'
+
+describe('scheduler', () => {
+  const createJob = (calls: string[], name: string, id?: number) => {
+    const job: SchedulerJob = () => {
+      calls.push(name)
+    }
+    job.id = id
+    return job
+  }
+
+  it('nextTick', async () => {
+    const calls: string[] = []
+    const dummyThen = Promise.resolve().then()
+    const job1 = () => {
+      calls.push('job1')
+    }
+    const job2 = () => {
+      calls.push('job2')
+    }
+    nextTick(job1)
+    job2()
+
+    expect(calls.length).toBe(1)
+    await dummyThen
+    // job1 will be pushed in nextTick
+    expect(calls.length).toBe(2)
+    expect(calls).toMatchObject(['job2', 'job1'])
+  })
+
+  describe('queueJob', () => {
+    it('basic usage', async () => {
+      const calls: string[] = []
+      queueJob(createJob(calls, 'job1'))
+      queueJob(createJob(calls, 'job2'))
+      expect(calls).toEqual([])
+      await nextTick()
+      expect(calls).toEqual(['job1', 'job2'])
+    })
+
+    it('should dedupe queued jobs', async () => {
+      const calls: string[] = []
+      const job1 = createJob(calls, 'job1')
+      const job2 = createJob(calls, 'job2')
+      queueJob(job1)
+      queueJob(job2)
+      queueJob(job1)
+      queueJob(job2)
+      await nextTick()
+      expect(calls).toEqual(['job1', 'job2'])
+    })
+
+    it('should sort jobs by id', async () => {
+      const calls: string[] = []
+      queueJob(createJob(calls, 'job3', 3))
+      queueJob(createJob(calls, 'no id'))
+      queueJob(createJob(calls, 'job1', 1))
+      queueJob(createJob(calls, 'job2', 2))
+      await nextTick()
+      expect(calls).toEqual(['job1', 'job2', 'job3', 'no id'])
+    })
+
+    it('should insert jobs queued during flush by id', async () => {
+      const calls: string[] = []
+      const job1: SchedulerJob = () => {
+        calls.push('job1')
+        queueJob(createJob(calls, 'job2', 2))
+      }
+      job1.id = 1
+      queueJob(job1)
+      queueJob(createJob(calls, 'job3', 3))
+      await nextTick()
+      expect(calls).toEqual(['job1', 'job2', 'job3'])
+    })
+
+    it('invalidateJob', async () => {
+      const calls: string[] = []
+      const job1 = createJob(calls, 'job1')
+      const job2 = createJob(calls, 'job2')
+      queueJob(job1)
+      queueJob(job2)
+      invalidateJob(job1)
+      await nextTick()
+      expect(calls).toEqual(['job2'])
+    })
+  })
+
+  describe('queuePreFlushCb', () => {
+    it('should run before queued jobs', async () => {
+      const calls: string[] = []
+      queueJob(createJob(calls, 'job1', 1))
+      queuePostFlushCb(() => {
+        calls.push('post')
+      })
+      queuePreFlushCb(() => {
+        calls.push('pre')
+      })
+      await nextTick()
+      expect(calls).toEqual(['pre', 'job1', 'post'])
+    })
+
+    it('should dedupe and flush callbacks queued during pre flush', async () => {
+      const calls: string[] = []
+      const cb2 = () => {
+        calls.push('cb2')
+      }
+      const cb1 = () => {
+        calls.push('cb1')
+        queuePreFlushCb(cb2)
+      }
+      queuePreFlushCb(cb1)
+      queuePreFlushCb(cb1)
+      queueJob(createJob(calls, 'job1'))
+      await nextTick()
+      expect(calls).toEqual(['cb1', 'cb2', 'job1'])
+    })
+  })
+
+  describe('component updates', () => {
+    it('should update parent before child', async () => {
+      const parentState = ref(0)
+      const childState = ref(0)
+      const calls: string[] = []
+
+      const Child = {
+        props: ['count'],
+        render(this: any) {
+          calls.push('child')
+          return `${this.count} ${childState.value}`
+        }
+      }
+      const Parent = {
+        render() {
+          calls.push('parent')
+          return h(Child, { count: parentState.value })
+        }
+      }
+      const root = nodeOps.createElement('div')
+      render(h(Parent), root)
+      calls.length = 0
+
+      // the child update is queued first
+      childState.value++
+      parentState.value++
+      await nextTick()
+      expect(serializeInner(root)).toBe(`1 1`)
+      // the child is updated once, by its parent
+      expect(calls).toEqual(['parent', 'child'])
+    })
+
+    it('should skip the update of a child unmounted during the flush', async () => {
+      const show = ref(true)
+      const childState = ref(0)
+      const calls: string[] = []
+
+      const Child = {
+        render() {
+          calls.push('child')
+          return childState.value
+        }
+      }
+      const Parent = {
+        render() {
+          return show.value ? h(Child) : null
+        }
+      }
+      const root = nodeOps.createElement('div')
+      render(h(Parent), root)
+      calls.length = 0
+
+      childState.value++
+      show.value = false
+      await nextTick()
+      expect(serializeInner(root)).toBe(`<!---->`)
+      expect(calls).toEqual([])
+    })
+  })
+
+  describe('time slicing', () => {
+    // a fake clock advanced by the jobs, and slices resumed manually
+    let time: number
+    let slices: (() => void)[]
+
+    beforeEach(() => {
+      time = 0
+      slices = []
+      enableTimeSlicing({
+        budget: 5,
+        adapter: {
+          now: () => time,
+          requestSlice: resume => {
+            slices.push(resume)
+          }
+        }
+      })
+    })
+
+    afterEach(() => {
+      disableTimeSlicing()
+    })
+
+    const createSlowJob = (calls: string[], name: string, id: number) => {
+      const job: SchedulerJob = () => {
+        calls.push(name)
+        time += 3
+      }
+      job.id = id
+      return job
+    }
+
+    // let pending promise callbacks run
+    const flushPromises = () => new Promise(r => setTimeout(r))
+
+    it('should yield between jobs once the budget is spent', async () => {
+      const calls: string[] = []
+      queueJob(createSlowJob(calls, 'job1', 1))
+      queueJob(createSlowJob(calls, 'job2', 2))
+      queueJob(createSlowJob(calls, 'job3', 3))
+      queueJob(createSlowJob(calls, 'job4', 4))
+      queuePostFlushCb(() => {
+        calls.push('post')
+      })
+      let flushed = false
+      nextTick(() => {
+        flushed = true
+      })
+
+      await flushPromises()
+      expect(calls).toEqual(['job1', 'job2'])
+      expect(slices.length).toBe(1)
+      expect(flushed).toBe(false)
+
+      slices.shift()!()
+      await flushPromises()
+      expect(calls).toEqual(['job1', 'job2', 'job3', 'job4', 'post'])
+      expect(slices.length).toBe(0)
+      expect(flushed).toBe(true)
+    })
+
+    it('should pick up jobs queued between slices', async () => {
+      const calls: string[] = []
+      queueJob(createSlowJob(calls, 'job1', 1))
+      queueJob(createSlowJob(calls, 'job2', 2))
+      queueJob(createSlowJob(calls, 'job4', 4))
+      await flushPromises()
+      expect(calls).toEqual(['job1', 'job2'])
+
+      queueJob(createSlowJob(calls, 'job3', 3))
+      queuePreFlushCb(() => {
+        calls.push('pre')
+      })
+      const done = nextTick()
+      slices.shift()!()
+      await done
+      expect(calls).toEqual(['job1', 'job2', 'pre', 'job3', 'job4'])
+    })
+
+    it('should not yield within the budget', async () => {
+      const calls: string[] = []
+      queueJob(createJob(calls, 'job1', 1))
+      queueJob(createJob(calls, 'job2', 2))
+      await nextTick()
+      expect(calls).toEqual(['job1', 'job2'])
+      expect(slices.length).toBe(0)
+    })
+
+    it('should re-render components across slices', async () => {
+      const count = ref(0)
+      const Child = {
+        render() {
+          time += 3
+          return count.value
+        }
+      }
+      const root = nodeOps.createElement('div')
+      render(h(() => [h(Child), h(Child), h(Child)]), root)
+      expect(serializeInner(root)).toBe(`<!---->000<!---->`)
+
+      count.value++
+      await flushPromises()
+      // the first slice ran out of budget after two updates
+      expect(serializeInner(root)).toBe(`<!---->110<!---->`)
+
+      const done = nextTick()
+      slices.shift()!()
+      await done
+      expect(serializeInner(root)).toBe(`<!---->111<!---->`)
+    })
+  })
+})
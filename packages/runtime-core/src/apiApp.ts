@@ -3,10 +3,12 @@ import { ComponentOptions } from './apiOptions'
 import { ComponentPublicInstance } from './componentProxy'
 import { Directive, validateDirectiveName } from './directives'
 import { RootRenderFunction } from './createRenderer'
+import { RootHydrateFunction } from './hydration'
 import { InjectionKey } from './apiInject'
 import { isFunction, NO } from '@vue/shared'
 import { warn } from './warning'
-import { createVNode } from './vnode'
+import { createVNode, cloneVNode } from './vnode'
+import { devtoolsInitApp, devtoolsUnmountApp } from './devtools'
 
 export interface App<HostElement = any> {
   config: AppConfig
@@ -21,11 +23,21 @@ export interface App<HostElement = any> {
     rootContainer: HostElement | string,
     rootProps?: Data
   ): ComponentPublicInstance
+  unmount(): void
   provide<T>(key: InjectionKey<T> | string, value: T): this
+  // number of mismatches found (and fixed) while hydrating server-rendered
+  // markup. Also available in production builds.
+  readonly hydrationMismatches: number
+
+  // internal. exposed so that the server renderer can render an app without
+  // mounting it.
+  _context: AppContext
 }
 
 export interface AppConfig {
   devtools: boolean
+  // record User Timing marks and measures for component init, render, patch
+  // and mount (dev only)
   performance: boolean
   readonly isNativeTag?: (tag: string) => boolean
   isCustomElement?: (tag: string) => boolean
@@ -39,14 +51,20 @@ export interface AppConfig {
     instance: ComponentPublicInstance | null,
     trace: string
   ) => void
+  // properties available on every component instance of the app, e.g.
+  // `$http` added by a plugin. See `ComponentCustomProperties` for typing them.
+  globalProperties: Record<string, any>
 }
 
 export interface AppContext {
+  app: App // for devtools
   config: AppConfig
   mixins: ComponentOptions[]
   components: Record<string, Component>
   directives: Record<string, Directive>
   provides: Record<string | symbol, any>
+  hydrationMismatches: number
+  reload?: () => void // HMR only
 }
 
 type PluginInstallFunction = (app: App) => any
@@ -59,30 +77,37 @@ export type Plugin =
 
 export function createAppContext(): AppContext {
   return {
+    app: null!, // set in createApp()
     config: {
       devtools: true,
       performance: false,
       isNativeTag: NO,
       isCustomElement: NO,
       errorHandler: undefined,
-      warnHandler: undefined
+      warnHandler: undefined,
+      globalProperties: {}
     },
     mixins: [],
     components: {},
     directives: {},
-    provides: {}
+    provides: {},
+    hydrationMismatches: 0
   }
 }
 
 export function createAppAPI<HostNode, HostElement>(
-  render: RootRenderFunction<HostNode, HostElement>
+  render: RootRenderFunction<HostNode, HostElement>,
+  hydrate?: RootHydrateFunction<HostNode, HostElement>
 ): () => App<HostElement> {
   return function createApp(): App {
     const context = createAppContext()
 
     let isMounted = false
+    let container: HostElement | null = null
 
     const app: App = {
+      _context: context,
+
       get config() {
         return context.config
       },
@@ -95,6 +120,10 @@ export function createAppAPI<HostNode, HostElement>(
         }
       },
 
+      get hydrationMismatches() {
+        return context.hydrationMismatches
+      },
+
       use(plugin: Plugin) {
         if (isFunction(plugin)) {
           plugin(app)
@@ -171,8 +200,24 @@ export function createAppAPI<HostNode, HostElement>(
           // store app context on the root VNode.
           // this will be set on the root instance on initial mount.
           vnode.appContext = context
-          render(vnode, rootContainer)
+
+          // HMR root reload
+          if (__DEV__) {
+            context.reload = () => {
+              render(cloneVNode(vnode), rootContainer)
+            }
+          }
+
+          if (hydrate) {
+            hydrate(vnode, rootContainer)
+          } else {
+            render(vnode, rootContainer)
+          }
           isMounted = true
+          container = rootContainer
+          if (__DEV__) {
+            devtoolsInitApp(app, __VERSION__)
+          }
           return vnode.component!.renderProxy
         } else if (__DEV__) {
           warn(
@@ -181,6 +226,21 @@ export function createAppAPI<HostNode, HostElement>(
         }
       },
 
+      unmount() {
+        if (isMounted) {
+          render(null, container!)
+          if (__DEV__) {
+            // the root vnode should not be rendered again by HMR
+            context.reload = undefined
+            devtoolsUnmountApp(app)
+          }
+          isMounted = false
+          container = null
+        } else if (__DEV__) {
+          warn(`Cannot unmount an app that is not mounted.`)
+        }
+      },
+
       provide(key, value) {
         if (__DEV__ && key in context.provides) {
           warn(
@@ -196,6 +256,8 @@ export function createAppAPI<HostNode, HostElement>(
       }
     }
 
+    context.app = app
+
     return app
   }
 }
@@ -0,0 +1,223 @@
+import {
+  Component,
+  ComponentOptions,
+  ComponentInternalInstance,
+  currentInstance,
+  currentSuspense
+} from './component'
+import { ComponentPublicInstance } from './componentProxy'
+import { createVNode } from './vnode'
+import { onUnmounted } from './apiLifecycle'
+import { ref } from '@vue/reactivity'
+import { isFunction, isObject } from '@vue/shared'
+import { handleError, ErrorCodes } from './errorHandling'
+import { warn } from './warning'
+
+export type AsyncComponentResolveResult<T = Component> = T | { default: T } // es modules
+
+export type AsyncComponentLoader<T = any> = () => Promise<
+  AsyncComponentResolveResult<T>
+>
+
+export interface AsyncComponentOptions<T = any> {
+  loader: AsyncComponentLoader<T>
+  // rendered while loading, once `delay` has passed
+  loadingComponent?: Component
+  // rendered if loading failed. Receives the error as the `error` prop.
+  errorComponent?: Component
+  // ms before the loading component is shown (defaults to 200)
+  delay?: number
+  // ms after which loading is considered failed (defaults to no timeout)
+  timeout?: number
+  // defer to the parent Suspense, if any, instead of using the options above
+  suspensible?: boolean
+  // called when loading fails. Call `retry()` to load again or `fail()` to
+  // give up. `attempts` is the number of attempts made so far.
+  onError?: (
+    error: Error,
+    retry: () => void,
+    fail: () => void,
+    attempts: number
+  ) => any
+}
+
+export function defineAsyncComponent<
+  T extends Component = { new (): ComponentPublicInstance }
+>(source: AsyncComponentLoader<T> | AsyncComponentOptions<T>): T {
+  if (isFunction(source)) {
+    source = { loader: source }
+  }
+
+  const {
+    loader,
+    loadingComponent,
+    errorComponent,
+    delay = 200,
+    timeout,
+    suspensible = true,
+    onError: userOnError
+  } = source
+
+  // the request that is in flight, shared by all instances
+  let pendingRequest: Promise<Component> | null = null
+  // the loaded component, shared by all instances
+  let resolvedComp: Component | undefined
+
+  let retries = 0
+  const retry = () => {
+    retries++
+    pendingRequest = null
+    return load()
+  }
+
+  const load = (): Promise<Component> => {
+    let thisRequest: Promise<Component>
+    return (
+      pendingRequest ||
+      (thisRequest = pendingRequest = loader()
+        .catch(err => {
+          err = err instanceof Error ? err : new Error(String(err))
+          if (userOnError) {
+            return new Promise((resolve, reject) => {
+              userOnError(
+                err,
+                () => resolve(retry()),
+                () => reject(err),
+                retries + 1
+              )
+            })
+          } else {
+            throw err
+          }
+        })
+        .then((comp: any) => {
+          // a retry has been started in the meantime
+          if (thisRequest !== pendingRequest && pendingRequest) {
+            return pendingRequest
+          }
+          if (__DEV__ && !comp) {
+            warn(
+              `Async component loader resolved to undefined. ` +
+                `If you are using retry(), make sure to return its return value.`
+            )
+          }
+          // interop module default
+          if (
+            comp &&
+            (comp.__esModule || comp[Symbol.toStringTag] === 'Module')
+          ) {
+            comp = comp.default
+          }
+          if (__DEV__ && comp && !isObject(comp) && !isFunction(comp)) {
+            throw new Error(`Invalid async component load result: ${comp}`)
+          }
+          resolvedComp = comp
+          return comp
+        })
+        .catch(err => {
+          // failed for good: the next instance starts a new request
+          if (thisRequest === pendingRequest) {
+            pendingRequest = null
+          }
+          throw err
+        }))
+    )
+  }
+
+  const wrapper: ComponentOptions = {
+    name: 'AsyncComponentWrapper',
+    setup() {
+      const instance = currentInstance!
+
+      // already resolved by another instance
+      if (resolvedComp) {
+        return () => createInnerComp(resolvedComp!, instance)
+      }
+
+      const loaded = ref(false)
+      const error = ref<Error | undefined>(undefined)
+      const delayed = ref(!!delay)
+
+      // the error is only reported for this instance: a timeout does not
+      // affect the request shared with other instances.
+      const onError = (err: Error) => {
+        error.value = err
+        try {
+          handleError(err, instance, ErrorCodes.ASYNC_COMPONENT_LOADER)
+        } catch (e) {
+          // nothing handled the error. Called from a timer or a promise
+          // callback, rethrowing would only leave an uncaught error behind.
+          // The error component already shows it.
+          if (!errorComponent) {
+            console.error(e)
+          }
+        }
+      }
+
+      // suspense-controlled: the async setup() is resolved by the parent
+      // Suspense boundary, which renders its fallback in the meantime
+      if (__FEATURE_SUSPENSE__ && suspensible && currentSuspense) {
+        return load()
+          .then(comp => {
+            return () => createInnerComp(comp, instance)
+          })
+          .catch(err => {
+            onError(err)
+            return () =>
+              errorComponent
+                ? createVNode(errorComponent, { error: err })
+                : null
+          })
+      }
+
+      let delayTimer: ReturnType<typeof setTimeout> | undefined
+      let timeoutTimer: ReturnType<typeof setTimeout> | undefined
+
+      if (delay) {
+        delayTimer = setTimeout(() => {
+          delayed.value = false
+        }, delay)
+      }
+
+      if (timeout != null) {
+        timeoutTimer = setTimeout(() => {
+          if (!loaded.value && !error.value) {
+            onError(new Error(`Async component timed out after ${timeout}ms.`))
+          }
+        }, timeout)
+      }
+
+      onUnmounted(() => {
+        if (delayTimer) clearTimeout(delayTimer)
+        if (timeoutTimer) clearTimeout(timeoutTimer)
+      })
+
+      load()
+        .then(() => {
+          loaded.value = true
+        })
+        .catch(onError)
+
+      return () => {
+        if (loaded.value && resolvedComp) {
+          return createInnerComp(resolvedComp, instance)
+        } else if (error.value && errorComponent) {
+          return createVNode(errorComponent, {
+            error: error.value
+          })
+        } else if (loadingComponent && !delayed.value) {
+          return createVNode(loadingComponent)
+        }
+      }
+    }
+  }
+  return wrapper as T
+}
+
+// the loaded component receives the props and slots of the wrapper
+function createInnerComp(
+  comp: Component,
+  { vnode: { props, children } }: ComponentInternalInstance
+) {
+  return createVNode(comp, props, children)
+}
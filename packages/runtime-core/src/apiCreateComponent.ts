@@ -8,6 +8,7 @@ import {
 import { SetupContext, RenderFunction } from './component'
 import { ComponentPublicInstance } from './componentProxy'
 import { ExtractPropTypes } from './componentProps'
+import { EmitsOptions } from './componentEmits'
 import { isFunction } from '@vue/shared'
 import { Ref } from '@vue/reactivity'
 
@@ -44,9 +45,11 @@ export function createComponent<
   RawBindings,
   D,
   C extends ComputedOptions = {},
-  M extends MethodOptions = {}
+  M extends MethodOptions = {},
+  E extends EmitsOptions = Record<string, any>,
+  EE extends string = string
 >(
-  options: ComponentOptionsWithoutProps<Props, RawBindings, D, C, M>
+  options: ComponentOptionsWithoutProps<Props, RawBindings, D, C, M, E, EE>
 ): {
   __isConstructor: true
   new (): ComponentPublicInstance<
@@ -55,7 +58,8 @@ export function createComponent<
     D,
     C,
     M,
-    BaseProps & Props
+    BaseProps & Props,
+    E
   >
 }
 
@@ -67,13 +71,23 @@ export function createComponent<
   RawBindings,
   D,
   C extends ComputedOptions = {},
-  M extends MethodOptions = {}
+  M extends MethodOptions = {},
+  E extends EmitsOptions = Record<string, any>,
+  EE extends string = string
 >(
-  options: ComponentOptionsWithArrayProps<PropNames, RawBindings, D, C, M>
+  options: ComponentOptionsWithArrayProps<
+    PropNames,
+    RawBindings,
+    D,
+    C,
+    M,
+    E,
+    EE
+  >
 ): {
   __isConstructor: true
   // array props technically doesn't place any contraints on props in TSX
-  new (): ComponentPublicInstance<BaseProps, RawBindings, D, C, M>
+  new (): ComponentPublicInstance<BaseProps, RawBindings, D, C, M, BaseProps, E>
 }
 
 // overload 4: object format with object props declaration
@@ -83,9 +97,19 @@ export function createComponent<
   RawBindings,
   D,
   C extends ComputedOptions = {},
-  M extends MethodOptions = {}
+  M extends MethodOptions = {},
+  E extends EmitsOptions = Record<string, any>,
+  EE extends string = string
 >(
-  options: ComponentOptionsWithObjectProps<PropsOptions, RawBindings, D, C, M>
+  options: ComponentOptionsWithObjectProps<
+    PropsOptions,
+    RawBindings,
+    D,
+    C,
+    M,
+    E,
+    EE
+  >
 ): {
   __isConstructor: true
   // for Vetur and TSX support
@@ -95,7 +119,8 @@ export function createComponent<
     D,
     C,
     M,
-    BaseProps & ExtractPropTypes<PropsOptions, false>
+    BaseProps & ExtractPropTypes<PropsOptions, false>,
+    E
   >
 }
 
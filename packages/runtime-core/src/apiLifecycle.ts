@@ -90,3 +90,27 @@ export type ErrorCapturedHook = (
 export const onErrorCaptured = createHook<ErrorCapturedHook>(
   LifecycleHooks.ERROR_CAPTURED
 )
+
+export type ServerPrefetchHook = () => Promise<unknown> | void
+
+// Only called during server-side rendering: the server renderer awaits all
+// prefetch hooks of a component before rendering its subtree. Unlike other
+// lifecycle hooks these are not wrapped here, since the server renderer calls
+// them and reports their errors with `ErrorCodes.SERVER_PREFETCH`.
+export function onServerPrefetch(
+  hook: ServerPrefetchHook,
+  target: ComponentInternalInstance | null = currentInstance
+) {
+  if (target) {
+    const hooks =
+      target[LifecycleHooks.SERVER_PREFETCH] ||
+      (target[LifecycleHooks.SERVER_PREFETCH] = [])
+    hooks.push(hook)
+  } else if (__DEV__) {
+    warn(
+      `onServerPrefetch is called when there is no active component instance ` +
+        `to be associated with. ` +
+        `Lifecycle injection APIs can only be used during execution of setup().`
+    )
+  }
+}
@@ -23,6 +23,7 @@ import {
   onBeforeUpdate,
   onUpdated,
   onErrorCaptured,
+  onServerPrefetch,
   onRenderTracked,
   onBeforeUnmount,
   onUnmounted,
@@ -39,6 +40,7 @@ import {
 } from '@vue/reactivity'
 import { ComponentObjectPropsOptions, ExtractPropTypes } from './componentProps'
 import { Directive } from './directives'
+import { EmitsOptions } from './componentEmits'
 import { ComponentPublicInstance } from './componentProxy'
 import { warn } from './warning'
 
@@ -47,12 +49,14 @@ export interface ComponentOptionsBase<
   RawBindings,
   D,
   C extends ComputedOptions,
-  M extends MethodOptions
+  M extends MethodOptions,
+  E extends EmitsOptions,
+  EE extends string = string
 > extends LegacyOptions<Props, RawBindings, D, C, M> {
   setup?: (
     this: null,
     props: Props,
-    ctx: SetupContext
+    ctx: SetupContext<E>
   ) => RawBindings | RenderFunction | void
   name?: string
   template?: string
@@ -62,9 +66,22 @@ export interface ComponentOptionsBase<
   // Luckily `render()` doesn't need any arguments nor does it care about return
   // type.
   render?: Function
+  // render function compiled with `ssr: true`, used by @vue/server-renderer
+  ssrRender?: Function
+  // key for caching the server-rendered HTML of this component. Receives the
+  // resolved props of the component. Returning a falsy value skips caching
+  // for this render. Requires `name` and a cache store in the SSR context.
+  serverCacheKey?: (props: Props) => string | number | false | null | void
   components?: Record<string, Component>
   directives?: Record<string, Directive>
   inheritAttrs?: boolean
+  // events the component emits, as an array of names or an object of
+  // validators receiving the emitted arguments (dev only)
+  emits?: (E | EE[]) & ThisType<void>
+
+  // dev only, injected by the bundler to identify the component for hot
+  // module replacement
+  __hmrId?: string
 
   // type-only differentiator to separate OptionWihtoutProps from a constructor
   // type returned by createComponent()
@@ -76,10 +93,12 @@ export type ComponentOptionsWithoutProps<
   RawBindings = {},
   D = {},
   C extends ComputedOptions = {},
-  M extends MethodOptions = {}
-> = ComponentOptionsBase<Props, RawBindings, D, C, M> & {
+  M extends MethodOptions = {},
+  E extends EmitsOptions = EmitsOptions,
+  EE extends string = string
+> = ComponentOptionsBase<Props, RawBindings, D, C, M, E, EE> & {
   props?: undefined
-} & ThisType<ComponentPublicInstance<Props, RawBindings, D, C, M>>
+} & ThisType<ComponentPublicInstance<Props, RawBindings, D, C, M, Props, E>>
 
 export type ComponentOptionsWithArrayProps<
   PropNames extends string = string,
@@ -87,10 +106,12 @@ export type ComponentOptionsWithArrayProps<
   D = {},
   C extends ComputedOptions = {},
   M extends MethodOptions = {},
+  E extends EmitsOptions = EmitsOptions,
+  EE extends string = string,
   Props = { [key in PropNames]?: any }
-> = ComponentOptionsBase<Props, RawBindings, D, C, M> & {
+> = ComponentOptionsBase<Props, RawBindings, D, C, M, E, EE> & {
   props: PropNames[]
-} & ThisType<ComponentPublicInstance<Props, RawBindings, D, C, M>>
+} & ThisType<ComponentPublicInstance<Props, RawBindings, D, C, M, Props, E>>
 
 export type ComponentOptionsWithObjectProps<
   PropsOptions = ComponentObjectPropsOptions,
@@ -98,10 +119,12 @@ export type ComponentOptionsWithObjectProps<
   D = {},
   C extends ComputedOptions = {},
   M extends MethodOptions = {},
+  E extends EmitsOptions = EmitsOptions,
+  EE extends string = string,
   Props = ExtractPropTypes<PropsOptions>
-> = ComponentOptionsBase<Props, RawBindings, D, C, M> & {
+> = ComponentOptionsBase<Props, RawBindings, D, C, M, E, EE> & {
   props: PropsOptions
-} & ThisType<ComponentPublicInstance<Props, RawBindings, D, C, M>>
+} & ThisType<ComponentPublicInstance<Props, RawBindings, D, C, M, Props, E>>
 
 export type ComponentOptions =
   | ComponentOptionsWithoutProps
@@ -181,6 +204,7 @@ export interface LegacyOptions<
   renderTracked?: DebuggerHook
   renderTriggered?: DebuggerHook
   errorCaptured?: ErrorCapturedHook
+  serverPrefetch?(): Promise<unknown> | void
 }
 
 const enum OptionTypes {
@@ -238,7 +262,8 @@ export function applyOptions(
     unmounted,
     renderTracked,
     renderTriggered,
-    errorCaptured
+    errorCaptured,
+    serverPrefetch
   } = options
 
   const globalMixins = instance.appContext.mixins
@@ -404,6 +429,9 @@ export function applyOptions(
   if (unmounted) {
     onUnmounted(unmounted.bind(ctx))
   }
+  if (serverPrefetch) {
+    onServerPrefetch(serverPrefetch.bind(ctx))
+  }
 }
 
 function callSyncHook(
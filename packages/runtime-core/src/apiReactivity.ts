@@ -1,15 +1,25 @@
 export {
   ref,
+  shallowRef,
   isRef,
+  toRef,
   toRefs,
+  unref,
+  customRef,
+  triggerRef,
   reactive,
   isReactive,
+  shallowReactive,
   readonly,
   isReadonly,
+  shallowReadonly,
   toRaw,
   markReadonly,
   markNonReactive,
   effect,
+  computed,
+  effectScope,
+  getCurrentScope,
   // types
   ReactiveEffect,
   ReactiveEffectOptions,
@@ -18,36 +28,7 @@ export {
   Ref,
   ComputedRef,
   UnwrapRef,
-  WritableComputedOptions
-} from '@vue/reactivity'
-
-import {
-  computed as _computed,
-  ComputedRef,
+  CustomRefFactory,
   WritableComputedOptions,
-  ReactiveEffect,
-  WritableComputedRef,
-  ComputedGetter
+  EffectScope
 } from '@vue/reactivity'
-
-import { currentInstance } from './component'
-
-// record effects created during a component's setup() so that they can be
-// stopped when the component unmounts
-export function recordEffect(effect: ReactiveEffect) {
-  if (currentInstance) {
-    ;(currentInstance.effects || (currentInstance.effects = [])).push(effect)
-  }
-}
-
-export function computed<T>(getter: ComputedGetter<T>): ComputedRef<T>
-export function computed<T>(
-  options: WritableComputedOptions<T>
-): WritableComputedRef<T>
-export function computed<T>(
-  getterOrOptions: ComputedGetter<T> | WritableComputedOptions<T>
-) {
-  const c = _computed(getterOrOptions as any)
-  recordEffect(c.effect)
-  return c
-}
@@ -6,7 +6,7 @@ import {
   ComputedRef,
   ReactiveEffectOptions
 } from '@vue/reactivity'
-import { queueJob } from './scheduler'
+import { queuePreFlushCb } from './scheduler'
 import {
   EMPTY_OBJ,
   isObject,
@@ -15,7 +15,6 @@ import {
   isString,
   hasChanged
 } from '@vue/shared'
-import { recordEffect } from './apiReactivity'
 import {
   currentInstance,
   ComponentInternalInstance,
@@ -171,7 +170,7 @@ function doWatch(
   } else if (flush === 'pre') {
     scheduler = job => {
       if (!instance || instance.vnode.el != null) {
-        queueJob(job)
+        queuePreFlushCb(job)
       } else {
         // with 'pre' option, the first call must happen before
         // the component is mounted so it is called synchronously.
@@ -203,7 +202,6 @@ function doWatch(
     oldValue = runner()
   }
 
-  recordEffect(runner)
   return () => {
     stop(runner)
   }
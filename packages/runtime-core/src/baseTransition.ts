@@ -0,0 +1,390 @@
+import {
+  getCurrentInstance,
+  SetupContext,
+  ComponentInternalInstance
+} from './component'
+import { cloneVNode, Comment, isVNode, VNode, VNodeTypes } from './vnode'
+import { warn } from './warning'
+import { isKeepAlive } from './keepAlive'
+import { isSameType } from './createRenderer'
+import { onMounted, onBeforeUnmount } from './apiLifecycle'
+import { callWithAsyncErrorHandling, ErrorCodes } from './errorHandling'
+import { ShapeFlags } from './shapeFlags'
+
+export interface BaseTransitionProps<HostElement = any> {
+  mode?: 'in-out' | 'out-in' | 'default'
+  appear?: boolean
+
+  // If true, indicates this is a transition that doesn't actually insert/remove
+  // the element, but toggles the show / hidden status instead.
+  // The transition hooks are injected, but will be skipped by the renderer.
+  // Instead, a custom directive can control the transition by calling the
+  // injected hooks (e.g. v-show).
+  persisted?: boolean
+
+  // Hooks. Using camel case for easier usage in render functions & JSX.
+  // Hooks that accept a `done` callback are expected to call it when the
+  // transition is finished.
+  onBeforeEnter?: (el: HostElement) => void
+  onEnter?: (el: HostElement, done: () => void) => void
+  onAfterEnter?: (el: HostElement) => void
+  onEnterCancelled?: (el: HostElement) => void
+  onBeforeLeave?: (el: HostElement) => void
+  onLeave?: (el: HostElement, done: () => void) => void
+  onAfterLeave?: (el: HostElement) => void
+  onLeaveCancelled?: (el: HostElement) => void
+  // appear hooks fall back to their enter counterparts
+  onBeforeAppear?: (el: HostElement) => void
+  onAppear?: (el: HostElement, done: () => void) => void
+  onAfterAppear?: (el: HostElement) => void
+  onAppearCancelled?: (el: HostElement) => void
+}
+
+// Hooks attached to a vnode by a transition component. The renderer calls
+// them when the element of the vnode is inserted, moved in or out of a
+// KeepAlive, or removed.
+export interface TransitionHooks<HostElement = any> {
+  // the hooks are called by a directive (e.g. v-show) instead of the renderer
+  persisted: boolean
+  // called before the element is inserted
+  beforeEnter(el: HostElement): void
+  // called (post-flush) after the element has been inserted
+  enter(el: HostElement): void
+  // called instead of removing the element. `remove` must be called once the
+  // leave transition is finished.
+  leave(el: HostElement, remove: () => void): void
+  // called by the renderer after the element has been removed
+  afterLeave?(): void
+  // if present, the renderer hands over control of the leave transition:
+  // `delayedLeave` starts it, `earlyRemove` skips it.
+  delayLeave?(
+    el: HostElement,
+    earlyRemove: () => void,
+    delayedLeave: () => void
+  ): void
+  // set on the hooks of the entering element in `in-out` mode
+  delayedLeave?(): void
+}
+
+type PendingCallback = (cancelled?: boolean) => void
+
+export interface TransitionElement {
+  // callbacks of the pending enter / leave transition
+  _enterCb?: PendingCallback
+  _leaveCb?: PendingCallback
+}
+
+export interface TransitionState {
+  isMounted: boolean
+  isLeaving: boolean
+  isUnmounting: boolean
+  // elements that are currently leaving, grouped by vnode type and key
+  leavingElements: Map<VNodeTypes, Record<string, TransitionElement>>
+}
+
+export function useTransitionState(): TransitionState {
+  const state: TransitionState = {
+    isMounted: false,
+    isLeaving: false,
+    isUnmounting: false,
+    leavingElements: new Map()
+  }
+  onMounted(() => {
+    state.isMounted = true
+  })
+  onBeforeUnmount(() => {
+    state.isUnmounting = true
+  })
+  return state
+}
+
+const BaseTransitionImpl = {
+  name: `BaseTransition`,
+  props: {
+    mode: String,
+    appear: Boolean,
+    persisted: Boolean,
+
+    // enter
+    onBeforeEnter: Function,
+    onEnter: Function,
+    onAfterEnter: Function,
+    onEnterCancelled: Function,
+    // leave
+    onBeforeLeave: Function,
+    onLeave: Function,
+    onAfterLeave: Function,
+    onLeaveCancelled: Function,
+    // appear
+    onBeforeAppear: Function,
+    onAppear: Function,
+    onAfterAppear: Function,
+    onAppearCancelled: Function
+  },
+
+  setup(props: BaseTransitionProps, { slots }: SetupContext) {
+    const instance = getCurrentInstance()!
+    const state = useTransitionState()
+
+    return () => {
+      const children = slots.default && slots.default()
+      if (!children || !children.length) {
+        return
+      }
+
+      if (__DEV__ && children.length > 1) {
+        warn(
+          '<transition> can only be used on a single element or component. ' +
+            'Use <transition-group> for lists.'
+        )
+      }
+
+      const { mode } = props
+      if (__DEV__ && mode && !['in-out', 'out-in', 'default'].includes(mode)) {
+        warn(`invalid <transition> mode: ${mode}`)
+      }
+
+      // slot content is always normalized into vnodes
+      const child = children[0] as VNode
+      // in `out-in` mode, nothing is rendered until the old child has left
+      if (state.isLeaving) {
+        return emptyPlaceholder(child)
+      }
+
+      // the transition of a KeepAlive applies to its cached child
+      const innerChild = getKeepAliveChild(child)
+      const enterHooks = resolveTransitionHooks(
+        innerChild,
+        props,
+        state,
+        instance
+      )
+      setTransitionHooks(innerChild, enterHooks)
+
+      const oldChild = instance.subTree
+      const oldInnerChild = oldChild && getKeepAliveChild(oldChild)
+      if (
+        oldInnerChild &&
+        oldInnerChild.type !== Comment &&
+        !isSameType(innerChild, oldInnerChild)
+      ) {
+        // update the hooks of the leaving child with the latest props
+        const leavingHooks = resolveTransitionHooks(
+          oldInnerChild,
+          props,
+          state,
+          instance
+        )
+        setTransitionHooks(oldInnerChild, leavingHooks)
+        if (mode === 'out-in') {
+          state.isLeaving = true
+          // render the new child once the old one has left
+          leavingHooks.afterLeave = () => {
+            state.isLeaving = false
+            instance.update()
+          }
+          return emptyPlaceholder(child)
+        } else if (mode === 'in-out' && innerChild.type !== Comment) {
+          // start the leave transition once the new child has entered
+          leavingHooks.delayLeave = (
+            el: TransitionElement,
+            earlyRemove,
+            delayedLeave
+          ) => {
+            const leavingElements = getLeavingElements(state, oldInnerChild)
+            leavingElements[String(oldInnerChild.key)] = el
+            // an element with the same key entering again removes it early
+            el._leaveCb = () => {
+              earlyRemove()
+              el._leaveCb = undefined
+              enterHooks.delayedLeave = undefined
+            }
+            enterHooks.delayedLeave = delayedLeave
+          }
+        }
+      }
+
+      return child
+    }
+  }
+}
+
+// export the public type for h/tsx inference
+export const BaseTransition = (BaseTransitionImpl as any) as {
+  new (): {
+    $props: BaseTransitionProps
+  }
+}
+
+function getLeavingElements(
+  state: TransitionState,
+  vnode: VNode
+): Record<string, TransitionElement> {
+  let leavingElements = state.leavingElements.get(vnode.type)
+  if (!leavingElements) {
+    leavingElements = Object.create(null)
+    state.leavingElements.set(vnode.type, leavingElements!)
+  }
+  return leavingElements!
+}
+
+// The transition hooks are attached to the vnode and called by the renderer
+// when inserting, moving or removing its element.
+export function resolveTransitionHooks(
+  vnode: VNode,
+  {
+    appear,
+    persisted = false,
+    onBeforeEnter,
+    onEnter,
+    onAfterEnter,
+    onEnterCancelled,
+    onBeforeLeave,
+    onLeave,
+    onAfterLeave,
+    onLeaveCancelled,
+    onBeforeAppear,
+    onAppear,
+    onAfterAppear,
+    onAppearCancelled
+  }: BaseTransitionProps,
+  state: TransitionState,
+  instance: ComponentInternalInstance
+): TransitionHooks<TransitionElement> {
+  const key = String(vnode.key)
+
+  function callHook(hook: Function | undefined, args: any[]) {
+    hook &&
+      callWithAsyncErrorHandling(
+        hook,
+        instance,
+        ErrorCodes.TRANSITION_HOOK,
+        args
+      )
+  }
+
+  const hooks: TransitionHooks<TransitionElement> = {
+    persisted,
+    beforeEnter(el) {
+      let hook = onBeforeEnter
+      if (!state.isMounted) {
+        if (!appear) {
+          return
+        }
+        hook = onBeforeAppear || onBeforeEnter
+      }
+      // the element is re-entering before its leave transition has finished
+      if (el._leaveCb) {
+        el._leaveCb(true /* cancelled */)
+      }
+      // an element with the same key is still leaving: remove it right away
+      const leavingEl = getLeavingElements(state, vnode)[key]
+      if (leavingEl && leavingEl._leaveCb) {
+        leavingEl._leaveCb()
+      }
+      callHook(hook, [el])
+    },
+
+    enter(el) {
+      let hook = onEnter
+      let afterHook = onAfterEnter
+      let cancelHook = onEnterCancelled
+      if (!state.isMounted) {
+        if (!appear) {
+          return
+        }
+        hook = onAppear || onEnter
+        afterHook = onAfterAppear || onAfterEnter
+        cancelHook = onAppearCancelled || onEnterCancelled
+      }
+      let called = false
+      const done = (el._enterCb = (cancelled?) => {
+        if (called) return
+        called = true
+        callHook(cancelled ? cancelHook : afterHook, [el])
+        if (hooks.delayedLeave) {
+          hooks.delayedLeave()
+        }
+        el._enterCb = undefined
+      })
+      if (hook) {
+        callHook(hook, [el, done])
+        // the hook does not accept `done`, so it is considered synchronous
+        if (hook.length <= 1) {
+          done()
+        }
+      } else {
+        done()
+      }
+    },
+
+    leave(el, remove) {
+      if (el._enterCb) {
+        el._enterCb(true /* cancelled */)
+      }
+      // the whole <transition> is being unmounted, there's nothing to animate
+      if (state.isUnmounting) {
+        return remove()
+      }
+      callHook(onBeforeLeave, [el])
+      let called = false
+      const leavingElements = getLeavingElements(state, vnode)
+      const done = (el._leaveCb = (cancelled?) => {
+        if (called) return
+        called = true
+        remove()
+        callHook(cancelled ? onLeaveCancelled : onAfterLeave, [el])
+        el._leaveCb = undefined
+        if (leavingElements[key] === el) {
+          delete leavingElements[key]
+        }
+      })
+      leavingElements[key] = el
+      if (onLeave) {
+        callHook(onLeave, [el, done])
+        if (onLeave.length <= 1) {
+          done()
+        }
+      } else {
+        done()
+      }
+    }
+  }
+
+  return hooks
+}
+
+export function setTransitionHooks(vnode: VNode, hooks: TransitionHooks) {
+  vnode.transition = hooks
+  // the element of a mounted component is its subtree's root
+  if (vnode.shapeFlag & ShapeFlags.COMPONENT && vnode.component) {
+    setTransitionHooks(vnode.component.subTree, hooks)
+  }
+}
+
+// The placeholder rendered in place of the child while the old child is
+// leaving in `out-in` mode. A KeepAlive is kept so that its cache survives.
+function emptyPlaceholder(vnode: VNode): VNode | undefined {
+  if (isKeepAlive(vnode)) {
+    vnode = cloneVNode(vnode)
+    vnode.children = []
+    return vnode
+  }
+}
+
+// The child of a KeepAlive can only be determined when it is passed as array
+// children. Otherwise the KeepAlive itself is used and its hooks are passed
+// down to the cached child on render.
+function getKeepAliveChild(vnode: VNode): VNode {
+  if (isKeepAlive(vnode) && vnode.shapeFlag & ShapeFlags.ARRAY_CHILDREN) {
+    // a mounted KeepAlive: the child it actually rendered
+    if (vnode.component) {
+      return vnode.component.subTree
+    }
+    const child = (vnode.children as unknown[])[0]
+    if (isVNode(child)) {
+      return child
+    }
+  }
+  return vnode
+}
@@ -1,24 +1,26 @@
 import { VNode, VNodeChild, isVNode } from './vnode'
-import { ReactiveEffect, reactive, readonly } from '@vue/reactivity'
+import {
+  ReactiveEffect,
+  EffectScope,
+  effectScope,
+  reactive,
+  readonly
+} from '@vue/reactivity'
 import {
   PublicInstanceProxyHandlers,
   ComponentPublicInstance
 } from './componentProxy'
-import { ComponentPropsOptions } from './componentProps'
-import { Slots } from './componentSlots'
+import { ComponentPropsOptions, resolveProps } from './componentProps'
+import { Slots, resolveSlots } from './componentSlots'
+import { EmitFn, EmitsOptions, emit } from './componentEmits'
 import { warn } from './warning'
-import {
-  ErrorCodes,
-  callWithErrorHandling,
-  callWithAsyncErrorHandling
-} from './errorHandling'
+import { ErrorCodes, callWithErrorHandling } from './errorHandling'
 import { AppContext, createAppContext, AppConfig } from './apiApp'
 import { Directive, validateDirectiveName } from './directives'
 import { applyOptions, ComponentOptions } from './apiOptions'
 import {
   EMPTY_OBJ,
   isFunction,
-  capitalize,
   NOOP,
   isObject,
   NO,
@@ -26,6 +28,7 @@ import {
   isPromise
 } from '@vue/shared'
 import { SuspenseBoundary } from './suspense'
+import { ShapeFlags } from './shapeFlags'
 import {
   CompilerError,
   CompilerOptions,
@@ -34,9 +37,13 @@ import {
 
 export type Data = { [key: string]: unknown }
 
-export interface FunctionalComponent<P = {}> {
-  (props: P, ctx: SetupContext): VNodeChild
+export interface FunctionalComponent<
+  P = {},
+  E extends EmitsOptions = Record<string, any>
+> {
+  (props: P, ctx: SetupContext<E>): VNodeChild
   props?: ComponentPropsOptions<P>
+  emits?: E | (keyof E)[]
   inheritAttrs?: boolean
   displayName?: string
 }
@@ -59,20 +66,20 @@ export const enum LifecycleHooks {
   ACTIVATED = 'a',
   RENDER_TRIGGERED = 'rtg',
   RENDER_TRACKED = 'rtc',
-  ERROR_CAPTURED = 'ec'
+  ERROR_CAPTURED = 'ec',
+  SERVER_PREFETCH = 'sp'
 }
 
-export type Emit = (event: string, ...args: unknown[]) => void
-
-export interface SetupContext {
+export interface SetupContext<E = EmitsOptions> {
   attrs: Data
   slots: Slots
-  emit: Emit
+  emit: EmitFn<E>
 }
 
 export type RenderFunction = () => VNodeChild
 
 export interface ComponentInternalInstance {
+  uid: number
   type: FunctionalComponent | ComponentOptions
   parent: ComponentInternalInstance | null
   appContext: AppContext
@@ -82,7 +89,9 @@ export interface ComponentInternalInstance {
   subTree: VNode
   update: ReactiveEffect
   render: RenderFunction | null
-  effects: ReactiveEffect[] | null
+  // collects the effects, computed and watchers of the instance so that they
+  // are stopped when it unmounts
+  scope: EffectScope
   provides: Data
   // cache for renderProxy access type to avoid hasOwnProperty calls
   accessCache: Data | null
@@ -104,7 +113,7 @@ export interface ComponentInternalInstance {
   propsProxy: Data | null
   setupContext: SetupContext | null
   refs: Data
-  emit: Emit
+  emit: EmitFn
 
   // suspense related
   asyncDep: Promise<any> | null
@@ -130,9 +139,11 @@ export interface ComponentInternalInstance {
   [LifecycleHooks.ACTIVATED]: LifecycleHook
   [LifecycleHooks.DEACTIVATED]: LifecycleHook
   [LifecycleHooks.ERROR_CAPTURED]: LifecycleHook
+  [LifecycleHooks.SERVER_PREFETCH]: LifecycleHook
 }
 
 const emptyAppContext = createAppContext()
+let uid = 0
 
 export function createComponentInstance(
   vnode: VNode,
@@ -142,6 +153,7 @@ export function createComponentInstance(
   const appContext =
     (parent ? parent.appContext : vnode.appContext) || emptyAppContext
   const instance: ComponentInternalInstance = {
+    uid: uid++,
     vnode,
     parent,
     appContext,
@@ -154,7 +166,7 @@ export function createComponentInstance(
     renderProxy: null,
     propsProxy: null,
     setupContext: null,
-    effects: null,
+    scope: effectScope(true /* detached */),
     provides: parent ? parent.provides : Object.create(appContext.provides),
     accessCache: null!,
     renderCache: null,
@@ -197,22 +209,18 @@ export function createComponentInstance(
     rtg: null,
     rtc: null,
     ec: null,
+    sp: null,
 
-    emit: (event, ...args) => {
-      const props = instance.vnode.props || EMPTY_OBJ
-      const handler = props[`on${event}`] || props[`on${capitalize(event)}`]
-      if (handler) {
-        callWithAsyncErrorHandling(
-          handler,
-          instance,
-          ErrorCodes.COMPONENT_EVENT_HANDLER,
-          args
-        )
-      }
-    }
+    emit: null! // to be set immediately
   }
 
   instance.root = parent ? parent.root : instance
+  instance.emit = emit.bind(null, instance)
+
+  // let a custom element wrapper intercept the instance (e.g. its emit)
+  if (vnode.ce) {
+    vnode.ce(instance)
+  }
   return instance
 }
 
@@ -222,10 +230,17 @@ export let currentSuspense: SuspenseBoundary | null = null
 export const getCurrentInstance: () => ComponentInternalInstance | null = () =>
   currentInstance
 
+// effects created while an instance is current are collected by its scope
 export const setCurrentInstance = (
   instance: ComponentInternalInstance | null
 ) => {
+  if (currentInstance) {
+    currentInstance.scope.off()
+  }
   currentInstance = instance
+  if (instance) {
+    instance.scope.on()
+  }
 }
 
 const isBuiltInTag = /*#__PURE__*/ makeMap('slot,component')
@@ -239,6 +254,25 @@ export function validateComponentName(name: string, config: AppConfig) {
   }
 }
 
+export function setupComponent(
+  instance: ComponentInternalInstance,
+  parentSuspense: SuspenseBoundary | null
+) {
+  resolvePropsAndSlots(instance)
+
+  // setup stateful logic
+  if (instance.vnode.shapeFlag & ShapeFlags.STATEFUL_COMPONENT) {
+    setupStatefulComponent(instance, parentSuspense)
+  }
+}
+
+// resolve props and slots for setup context
+export function resolvePropsAndSlots(instance: ComponentInternalInstance) {
+  const { props, children } = instance.vnode
+  resolveProps(instance, props, instance.type.props)
+  resolveSlots(instance, children)
+}
+
 export function setupStatefulComponent(
   instance: ComponentInternalInstance,
   parentSuspense: SuspenseBoundary | null
@@ -276,7 +310,7 @@ export function setupStatefulComponent(
     const setupContext = (instance.setupContext =
       setup.length > 1 ? createSetupContext(instance) : null)
 
-    currentInstance = instance
+    setCurrentInstance(instance)
     currentSuspense = parentSuspense
     const setupResult = callWithErrorHandling(
       setup,
@@ -284,7 +318,7 @@ export function setupStatefulComponent(
       ErrorCodes.SETUP_FUNCTION,
       [propsProxy, setupContext]
     )
-    currentInstance = null
+    setCurrentInstance(null)
     currentSuspense = null
 
     if (isPromise(setupResult)) {
@@ -371,7 +405,7 @@ function finishComponentSetup(
         }
       })
     }
-    if (__DEV__ && !Component.render) {
+    if (__DEV__ && !Component.render && !Component.ssrRender) {
       /* istanbul ignore if */
       if (!__RUNTIME_COMPILE__ && Component.template) {
         warn(
@@ -392,10 +426,10 @@ function finishComponentSetup(
 
   // support for 2.x options
   if (__FEATURE_OPTIONS__) {
-    currentInstance = instance
+    setCurrentInstance(instance)
     currentSuspense = parentSuspense
     applyOptions(instance, Component)
-    currentInstance = null
+    setCurrentInstance(null)
     currentSuspense = null
   }
 
@@ -0,0 +1,111 @@
+import { isArray, isFunction, capitalize, hasOwn, EMPTY_OBJ } from '@vue/shared'
+import { ComponentInternalInstance, Component } from './component'
+import { callWithAsyncErrorHandling, ErrorCodes } from './errorHandling'
+import { warn } from './warning'
+import { normalizePropsOptions } from './componentProps'
+import { devtoolsComponentEmit } from './devtools'
+
+export type ObjectEmitsOptions = Record<
+  string,
+  ((...args: any[]) => any) | null
+>
+export type EmitsOptions = ObjectEmitsOptions | string[]
+
+type UnionToIntersection<U> = (U extends any
+  ? (k: U) => void
+  : never) extends ((k: infer I) => void)
+  ? I
+  : never
+
+export type EmitFn<
+  Options = ObjectEmitsOptions,
+  Event extends keyof Options = keyof Options
+> = Options extends any[]
+  ? (event: Options[0], ...args: any[]) => void
+  : {} extends Options // if the emit is empty object (usually the default value for emit) should be converted to function
+    ? (event: string, ...args: any[]) => void
+    : UnionToIntersection<
+        {
+          [key in Event]: Options[key] extends ((...args: infer Args) => any)
+            ? (event: key, ...args: Args) => void
+            : (event: key, ...args: any[]) => void
+        }[Event]
+      >
+
+export function emit(
+  instance: ComponentInternalInstance,
+  event: string,
+  ...args: unknown[]
+) {
+  const props = instance.vnode.props || EMPTY_OBJ
+
+  if (__DEV__) {
+    devtoolsComponentEmit(instance, event, args)
+    const options = normalizeEmitsOptions(instance.type.emits)
+    if (options) {
+      if (!(event in options)) {
+        const propsOptions = normalizePropsOptions(instance.type.props)
+        if (!propsOptions || !(`on` + capitalize(event) in propsOptions)) {
+          warn(
+            `Component emitted event "${event}" but it is neither declared in ` +
+              `the emits option nor as an "on${capitalize(event)}" prop.`
+          )
+        }
+      } else {
+        const validator = options[event]
+        if (isFunction(validator)) {
+          const isValid = validator(...args)
+          if (!isValid) {
+            warn(
+              `Invalid event arguments: event validation failed for event "${event}".`
+            )
+          }
+        }
+      }
+    }
+  }
+
+  const handler = props[`on${event}`] || props[`on${capitalize(event)}`]
+  if (handler) {
+    callWithAsyncErrorHandling(
+      handler,
+      instance,
+      ErrorCodes.COMPONENT_EVENT_HANDLER,
+      args
+    )
+  }
+}
+
+const normalizationMap = new WeakMap<string[], ObjectEmitsOptions>()
+
+export function normalizeEmitsOptions(
+  options: EmitsOptions | undefined
+): ObjectEmitsOptions | undefined {
+  if (!options) {
+    return
+  } else if (isArray(options)) {
+    if (normalizationMap.has(options)) {
+      return normalizationMap.get(options)
+    }
+    const normalized: ObjectEmitsOptions = {}
+    options.forEach(key => (normalized[key] = null))
+    normalizationMap.set(options, normalized)
+    return normalized
+  } else {
+    return options
+  }
+}
+
+// Check if an incoming prop key is a declared emit event listener.
+// e.g. With `emits: { click: null }`, props named `onClick` and `onclick` are
+// both considered matched listeners.
+export function isEmitListener(comp: Component, key: string): boolean {
+  let emits: ObjectEmitsOptions | undefined
+  if (!/^on/.test(key) || !(emits = normalizeEmitsOptions(comp.emits))) {
+    return false
+  }
+  key = key.replace(/^on/, '')
+  return (
+    hasOwn(emits, key[0].toLowerCase() + key.slice(1)) || hasOwn(emits, key)
+  )
+}
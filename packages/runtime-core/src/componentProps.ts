@@ -1,4 +1,4 @@
-import { readonly, toRaw, lock, unlock } from '@vue/reactivity'
+import { reactive, readonly, toRaw } from '@vue/reactivity'
 import {
   EMPTY_OBJ,
   camelize,
@@ -112,20 +112,19 @@ export function resolveProps(
   let attrs: Data | undefined = void 0
 
   // update the instance propsProxy (passed to setup()) to trigger potential
-  // changes
+  // changes. The propsProxy is readonly, so the writes go through a mutable
+  // reactive proxy of the same raw props object instead.
   const propsProxy = instance.propsProxy
-  const setProp = propsProxy
+  const mutableProps = propsProxy && reactive(toRaw(propsProxy))
+  const setProp = mutableProps
     ? (key: string, val: unknown) => {
         props[key] = val
-        propsProxy[key] = val
+        mutableProps[key] = val
       }
     : (key: string, val: unknown) => {
         props[key] = val
       }
 
-  // allow mutation of propsProxy (which is readonly by default)
-  unlock()
-
   if (rawProps != null) {
     for (const key in rawProps) {
       // key, ref are reserved
@@ -186,20 +185,17 @@ export function resolveProps(
   // the props proxy
   const { patchFlag } = instance.vnode
   if (
-    propsProxy !== null &&
+    mutableProps !== null &&
     (patchFlag === 0 || patchFlag & PatchFlags.FULL_PROPS)
   ) {
-    const rawInitialProps = toRaw(propsProxy)
+    const rawInitialProps = toRaw(mutableProps)
     for (const key in rawInitialProps) {
       if (!hasOwn(props, key)) {
-        delete propsProxy[key]
+        delete mutableProps[key]
       }
     }
   }
 
-  // lock readonly
-  lock()
-
   instance.props = __DEV__ ? readonly(props) : props
   instance.attrs = options
     ? __DEV__ && attrs != null
@@ -210,7 +206,7 @@ export function resolveProps(
 
 const normalizationMap = new WeakMap()
 
-function normalizePropsOptions(
+export function normalizePropsOptions(
   raw: ComponentPropsOptions | void
 ): NormalizedPropsOptions | null {
   if (!raw) {
@@ -1,4 +1,4 @@
-import { ComponentInternalInstance, Data, Emit } from './component'
+import { ComponentInternalInstance, Data } from './component'
 import { nextTick } from './scheduler'
 import { instanceWatch } from './apiWatch'
 import { EMPTY_OBJ, hasOwn, isGloballyWhitelisted } from '@vue/shared'
@@ -11,11 +11,27 @@ import {
 import { UnwrapRef, ReactiveEffect } from '@vue/reactivity'
 import { warn } from './warning'
 import { Slots } from './componentSlots'
+import { EmitFn, EmitsOptions } from './componentEmits'
 import {
   currentRenderingInstance,
   markAttrsAccessed
 } from './componentRenderUtils'
 
+/**
+ * Custom properties added to component instances in any way and can be accessed
+ * through `this`, e.g. via `app.config.globalProperties`. Plugins can augment
+ * this interface to type them:
+ *
+ * ```ts
+ * declare module '@vue/runtime-core' {
+ *   interface ComponentCustomProperties {
+ *     $http: typeof axios
+ *   }
+ * }
+ * ```
+ */
+export interface ComponentCustomProperties {}
+
 // public properties exposed on the proxy, which is used as the render context
 // in templates (as `this` in the render option)
 export type ComponentPublicInstance<
@@ -24,7 +40,8 @@ export type ComponentPublicInstance<
   D = {},
   C extends ComputedOptions = {},
   M extends MethodOptions = {},
-  PublicProps = P
+  PublicProps = P,
+  E extends EmitsOptions = {}
 > = {
   [key: string]: any
   $data: D
@@ -34,9 +51,9 @@ export type ComponentPublicInstance<
   $slots: Slots
   $root: ComponentInternalInstance | null
   $parent: ComponentInternalInstance | null
-  $emit: Emit
+  $emit: EmitFn<E>
   $el: any
-  $options: ComponentOptionsBase<P, B, D, C, M>
+  $options: ComponentOptionsBase<P, B, D, C, M, E>
   $forceUpdate: ReactiveEffect
   $nextTick: typeof nextTick
   $watch: typeof instanceWatch
@@ -44,7 +61,8 @@ export type ComponentPublicInstance<
   UnwrapRef<B> &
   D &
   ExtractComputedReturns<C> &
-  M
+  M &
+  ComponentCustomProperties
 
 const publicPropertiesMap = {
   $data: 'data',
@@ -128,8 +146,11 @@ export const PublicInstanceProxyHandlers: ProxyHandler<any> = {
           return instanceWatch.bind(target)
       }
     }
+    const { globalProperties } = target.appContext.config
     if (hasOwn(sink, key)) {
       return sink[key]
+    } else if (hasOwn(globalProperties, key)) {
+      return globalProperties[key]
     } else if (__DEV__ && currentRenderingInstance != null) {
       warn(
         `Property ${JSON.stringify(key)} was accessed during render ` +
@@ -1,6 +1,7 @@
 import {
   ComponentInternalInstance,
   FunctionalComponent,
+  Component,
   Data
 } from './component'
 import {
@@ -14,11 +15,19 @@ import { ShapeFlags } from './shapeFlags'
 import { handleError, ErrorCodes } from './errorHandling'
 import { PatchFlags, EMPTY_OBJ } from '@vue/shared'
 import { warn } from './warning'
+import { isEmitListener } from './componentEmits'
+import { isHmrUpdating } from './hmr'
 
 // mark the current rendering instance for asset resolution (e.g.
 // resolveComponent, resolveDirective) during render
 export let currentRenderingInstance: ComponentInternalInstance | null = null
 
+export function setCurrentRenderingInstance(
+  instance: ComponentInternalInstance | null
+) {
+  currentRenderingInstance = instance
+}
+
 // dev only flag to track whether $attrs was used during render.
 // If $attrs was used during render then the warning for failed attrs
 // fallthrough can be suppressed.
@@ -63,21 +72,44 @@ export function renderComponentRoot(
       )
     }
 
+    // inherit transition hooks so that the root element of a component
+    // inside a transition is animated
+    if (vnode.transition != null) {
+      if (
+        __DEV__ &&
+        !(result.shapeFlag & ShapeFlags.ELEMENT) &&
+        !(result.shapeFlag & ShapeFlags.COMPONENT) &&
+        result.type !== Comment
+      ) {
+        warn(
+          `Component inside <Transition> renders non-element root node ` +
+            `that cannot be animated.`
+        )
+      }
+      result.transition = vnode.transition
+    }
+
     // attr merging
+    const fallthroughAttrs =
+      Component.emits != null && attrs !== EMPTY_OBJ
+        ? filterEmitListeners(Component, attrs)
+        : attrs
     if (
       Component.props != null &&
       Component.inheritAttrs !== false &&
-      attrs !== EMPTY_OBJ &&
-      Object.keys(attrs).length
+      fallthroughAttrs !== EMPTY_OBJ &&
+      Object.keys(fallthroughAttrs).length
     ) {
       if (
         result.shapeFlag & ShapeFlags.ELEMENT ||
         result.shapeFlag & ShapeFlags.COMPONENT
       ) {
-        result = cloneVNode(result, attrs)
+        result = cloneVNode(result, fallthroughAttrs)
       } else if (__DEV__ && !accessedAttrs) {
         warn(
-          `Extraneous non-props attributes (${Object.keys(attrs).join(',')}) ` +
+          `Extraneous non-props attributes (${Object.keys(
+            fallthroughAttrs
+          ).join(',')}) ` +
             `were passed to component but could not be automatically inhertied ` +
             `because component renders fragment or text root nodes.`
         )
@@ -91,6 +123,18 @@ export function renderComponentRoot(
   return result
 }
 
+// listeners of declared events are handled by the component itself and must
+// not be bound to its root as well
+function filterEmitListeners(Component: Component, attrs: Data): Data {
+  const res: Data = {}
+  for (const key in attrs) {
+    if (!isEmitListener(Component, key)) {
+      res[key] = attrs[key]
+    }
+  }
+  return res
+}
+
 export function shouldUpdateComponent(
   prevVNode: VNode,
   nextVNode: VNode,
@@ -98,6 +142,12 @@ export function shouldUpdateComponent(
 ): boolean {
   const { props: prevProps, children: prevChildren } = prevVNode
   const { props: nextProps, children: nextChildren, patchFlag } = nextVNode
+
+  // force child update on HMR: its slot content may have changed
+  if (__DEV__ && (prevChildren || nextChildren) && isHmrUpdating) {
+    return true
+  }
+
   if (patchFlag > 0) {
     if (patchFlag & PatchFlags.DYNAMIC_SLOTS) {
       // slot content that references values that might have changed,
@@ -9,6 +9,7 @@ import {
 import { isArray, isFunction } from '@vue/shared'
 import { ShapeFlags } from './shapeFlags'
 import { warn } from './warning'
+import { isKeepAlive } from './keepAlive'
 
 export type Slot = (...args: any[]) => VNodeChildren
 
@@ -70,8 +71,9 @@ export function resolveSlots(
       }
     }
   } else if (children !== null) {
-    // non slot object children (direct value) passed to a component
-    if (__DEV__) {
+    // non slot object children (direct value) passed to a component.
+    // KeepAlive expects them so that <transition> can inspect its child.
+    if (__DEV__ && !isKeepAlive(instance.vnode)) {
       warn(
         `Non-function value encountered for default slot. ` +
           `Prefer function slots for better performance.`
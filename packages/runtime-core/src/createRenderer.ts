@@ -11,8 +11,9 @@ import {
 import {
   ComponentInternalInstance,
   createComponentInstance,
-  setupStatefulComponent,
+  setupComponent,
   Component,
+  ComponentOptions,
   Data
 } from './component'
 import {
@@ -28,10 +29,16 @@ import {
   isFunction,
   PatchFlags
 } from '@vue/shared'
-import { queueJob, queuePostFlushCb, flushPostFlushCbs } from './scheduler'
+import {
+  queueJob,
+  queuePostFlushCb,
+  flushPreFlushCbs,
+  flushPostFlushCbs,
+  invalidateJob,
+  SchedulerJob
+} from './scheduler'
 import {
   effect,
-  stop,
   ReactiveEffectOptions,
   isRef,
   Ref,
@@ -42,8 +49,19 @@ import { resolveProps } from './componentProps'
 import { resolveSlots } from './componentSlots'
 import { ShapeFlags } from './shapeFlags'
 import { pushWarningContext, popWarningContext, warn } from './warning'
+import { startMeasure, endMeasure } from './profiling'
+import {
+  devtoolsComponentAdded,
+  devtoolsComponentUpdated,
+  devtoolsComponentRemoved
+} from './devtools'
+import {
+  isHmrUpdating,
+  hmrDirtyComponents,
+  registerHMR,
+  unregisterHMR
+} from './hmr'
 import { invokeDirectiveHook } from './directives'
-import { ComponentPublicInstance } from './componentProxy'
 import { App, createAppAPI } from './apiApp'
 import {
   SuspenseBoundary,
@@ -52,6 +70,7 @@ import {
 } from './suspense'
 import { ErrorCodes, callWithErrorHandling } from './errorHandling'
 import { KeepAliveSink } from './keepAlive'
+import { createHydrationFunctions, RootHydrateFunction } from './hydration'
 
 export interface RendererOptions<HostNode = any, HostElement = any> {
   patchProp(
@@ -86,6 +105,13 @@ export type RootRenderFunction<HostNode, HostElement> = (
   dom: HostElement
 ) => void
 
+export const enum MoveType {
+  // moving in / out of a KeepAlive: runs the enter / leave transitions
+  ENTER,
+  LEAVE,
+  REORDER
+}
+
 // An object exposing the internals of a renderer, passed to tree-shakeable
 // features so that they can be decoupled from this file.
 export interface RendererInternals<HostNode = any, HostElement = any> {
@@ -108,14 +134,30 @@ export interface RendererInternals<HostNode = any, HostElement = any> {
   move: (
     vnode: VNode<HostNode, HostElement>,
     container: HostElement,
-    anchor: HostNode | null
+    anchor: HostNode | null,
+    type?: MoveType,
+    parentSuspense?: SuspenseBoundary<HostNode, HostElement> | null
   ) => void
   next: (vnode: VNode<HostNode, HostElement>) => HostNode | null
+  mountComponent: (
+    initialVNode: VNode<HostNode, HostElement>,
+    container: HostElement,
+    anchor: HostNode | null,
+    parentComponent: ComponentInternalInstance | null,
+    parentSuspense: SuspenseBoundary<HostNode, HostElement> | null,
+    isSVG: boolean,
+    hydrating?: boolean
+  ) => void
   options: RendererOptions<HostNode, HostElement>
 }
 
-const prodEffectOptions = {
-  scheduler: queueJob
+function createProdEffectOptions(
+  instance: ComponentInternalInstance
+): ReactiveEffectOptions {
+  return {
+    scheduler: queueJob,
+    scope: instance.scope
+  }
 }
 
 function createDevEffectOptions(
@@ -123,12 +165,21 @@ function createDevEffectOptions(
 ): ReactiveEffectOptions {
   return {
     scheduler: queueJob,
+    scope: instance.scope,
     onTrack: instance.rtc ? e => invokeHooks(instance.rtc!, e) : void 0,
     onTrigger: instance.rtg ? e => invokeHooks(instance.rtg!, e) : void 0
   }
 }
 
-function isSameType(n1: VNode, n2: VNode): boolean {
+export function isSameType(n1: VNode, n2: VNode): boolean {
+  if (
+    __DEV__ &&
+    n2.shapeFlag & ShapeFlags.COMPONENT &&
+    hmrDirtyComponents.has(n2.type as ComponentOptions)
+  ) {
+    // HMR only: the component options have been replaced, force a remount
+    return false
+  }
   return n1.type === n2.type && n1.key === n2.key
 }
 
@@ -164,7 +215,9 @@ export function createRenderer<
   options: RendererOptions<HostNode, HostElement>
 ): {
   render: RootRenderFunction<HostNode, HostElement>
+  hydrate: RootHydrateFunction<HostNode, HostElement>
   createApp: () => App<HostElement>
+  createSSRApp: () => App<HostElement>
 } {
   type HostVNode = VNode<HostNode, HostElement>
   type HostVNodeChildren = VNodeChildren<HostNode, HostElement>
@@ -189,9 +242,12 @@ export function createRenderer<
     unmount,
     move,
     next: getNextHostNode,
+    mountComponent,
     options
   }
 
+  const [hydrate, hydrateNode] = createHydrationFunctions(internals)
+
   function patch(
     n1: HostVNode | null, // null means this is a mount
     n2: HostVNode,
@@ -360,7 +416,7 @@ export function createRenderer<
     const tag = vnode.type as string
     isSVG = isSVG || tag === 'svg'
     const el = (vnode.el = hostCreateElement(tag, isSVG))
-    const { props, shapeFlag } = vnode
+    const { props, shapeFlag, transition } = vnode
     if (props != null) {
       for (const key in props) {
         if (isReservedProp(key)) continue
@@ -383,7 +439,16 @@ export function createRenderer<
         optimized || vnode.dynamicChildren !== null
       )
     }
+    const needCallTransitionHooks = transition != null && !transition.persisted
+    if (needCallTransitionHooks) {
+      transition!.beforeEnter(el)
+    }
     hostInsert(el, container, anchor)
+    if (needCallTransitionHooks) {
+      queuePostRenderEffect(() => {
+        transition!.enter(el)
+      }, parentSuspense)
+    }
     if (props != null && props.onVnodeMounted != null) {
       queuePostRenderEffect(() => {
         invokeDirectiveHook(props.onVnodeMounted, parentComponent, vnode)
@@ -427,7 +492,7 @@ export function createRenderer<
     optimized: boolean
   ) {
     const el = (n2.el = n1.el) as HostElement
-    const { patchFlag, dynamicChildren } = n2
+    let { patchFlag, dynamicChildren } = n2
     const oldProps = (n1 && n1.props) || EMPTY_OBJ
     const newProps = n2.props || EMPTY_OBJ
 
@@ -435,6 +500,13 @@ export function createRenderer<
       invokeDirectiveHook(newProps.onVnodeBeforeUpdate, parentComponent, n2, n1)
     }
 
+    if (__DEV__ && isHmrUpdating) {
+      // HMR updated, force full diff
+      patchFlag = 0
+      optimized = false
+      dynamicChildren = null
+    }
+
     if (patchFlag > 0) {
       // the presence of a patchFlag means this element's render code was
       // generated by the compiler and can take the fast path.
@@ -700,7 +772,7 @@ export function createRenderer<
       const target = (n2.target = n1.target)!
       if (patchFlag === PatchFlags.TEXT) {
         hostSetElementText(target, children as string)
-      } else if (n2.dynamicChildren) {
+      } else if (n2.dynamicChildren && !(__DEV__ && isHmrUpdating)) {
         // fast path when the portal happens to be a block root
         patchBlockChildren(
           n1.dynamicChildren!,
@@ -794,6 +866,9 @@ export function createRenderer<
         } else {
           // normal update
           instance.next = n2
+          // in case the child component is also queued, remove it to avoid
+          // double updating the same child component in the same flush.
+          invalidateJob(instance.update)
           // instance.update is the reactive effect runner.
           instance.update()
         }
@@ -814,15 +889,21 @@ export function createRenderer<
     anchor: HostNode | null,
     parentComponent: ComponentInternalInstance | null,
     parentSuspense: HostSuspenseBoundary | null,
-    isSVG: boolean
+    isSVG: boolean,
+    hydrating: boolean = false
   ) {
     const instance: ComponentInternalInstance = (initialVNode.component = createComponentInstance(
       initialVNode,
       parentComponent
     ))
 
+    if (__DEV__ && (instance.type as ComponentOptions).__hmrId != null) {
+      registerHMR(instance)
+    }
+
     if (__DEV__) {
       pushWarningContext(initialVNode)
+      startMeasure(instance, `mount`)
     }
 
     const Comp = initialVNode.type as Component
@@ -834,14 +915,12 @@ export function createRenderer<
       sink.parentSuspense = parentSuspense
     }
 
-    // resolve props and slots for setup context
-    const propsOptions = Comp.props
-    resolveProps(instance, initialVNode.props, propsOptions)
-    resolveSlots(instance, initialVNode.children)
-
-    // setup stateful logic
-    if (initialVNode.shapeFlag & ShapeFlags.STATEFUL_COMPONENT) {
-      setupStatefulComponent(instance, parentSuspense)
+    if (__DEV__) {
+      startMeasure(instance, `init`)
+    }
+    setupComponent(instance, parentSuspense)
+    if (__DEV__) {
+      endMeasure(instance, `init`)
     }
 
     // setup() is async. This component relies on async logic to be resolved
@@ -858,6 +937,9 @@ export function createRenderer<
       const placeholder = (instance.subTree = createVNode(Comment))
       processCommentNode(null, placeholder, container, anchor)
       initialVNode.el = placeholder.el
+      if (__DEV__) {
+        endMeasure(instance, `mount`)
+      }
       return
     }
 
@@ -868,11 +950,13 @@ export function createRenderer<
       initialVNode,
       container,
       anchor,
-      isSVG
+      isSVG,
+      hydrating
     )
 
     if (__DEV__) {
       popWarningContext()
+      endMeasure(instance, `mount`)
     }
   }
 
@@ -883,18 +967,51 @@ export function createRenderer<
     initialVNode: HostVNode,
     container: HostElement,
     anchor: HostNode | null,
-    isSVG: boolean
+    isSVG: boolean,
+    hydrating: boolean = false
   ) {
     // create reactive effect for rendering
     let mounted = false
     instance.update = effect(function componentEffect() {
       if (!mounted) {
+        if (__DEV__) {
+          startMeasure(instance, `render`)
+        }
         const subTree = (instance.subTree = renderComponentRoot(instance))
+        if (__DEV__) {
+          endMeasure(instance, `render`)
+        }
         // beforeMount hook
         if (instance.bm !== null) {
           invokeHooks(instance.bm)
         }
-        patch(null, subTree, container, anchor, instance, parentSuspense, isSVG)
+        if (hydrating) {
+          // the initial vnode already points to the server-rendered node, so
+          // the sub tree adopts the existing DOM instead of creating it.
+          hydrateNode(
+            initialVNode.el,
+            subTree,
+            container,
+            instance,
+            parentSuspense
+          )
+        } else {
+          if (__DEV__) {
+            startMeasure(instance, `patch`)
+          }
+          patch(
+            null,
+            subTree,
+            container,
+            anchor,
+            instance,
+            parentSuspense,
+            isSVG
+          )
+          if (__DEV__) {
+            endMeasure(instance, `patch`)
+          }
+        }
         initialVNode.el = subTree.el
         // mounted hook
         if (instance.m !== null) {
@@ -909,6 +1026,9 @@ export function createRenderer<
           queuePostRenderEffect(instance.a, parentSuspense)
         }
         mounted = true
+        if (__DEV__) {
+          devtoolsComponentAdded(instance)
+        }
       } else {
         // updateComponent
         // This is triggered by mutation of component's own state (next: null)
@@ -923,7 +1043,13 @@ export function createRenderer<
           updateComponentPreRender(instance, next)
         }
         const prevTree = instance.subTree
+        if (__DEV__) {
+          startMeasure(instance, `render`)
+        }
         const nextTree = (instance.subTree = renderComponentRoot(instance))
+        if (__DEV__) {
+          endMeasure(instance, `render`)
+        }
         // beforeUpdate hook
         if (instance.bu !== null) {
           invokeHooks(instance.bu)
@@ -933,6 +1059,9 @@ export function createRenderer<
         if (instance.refs !== EMPTY_OBJ) {
           instance.refs = {}
         }
+        if (__DEV__) {
+          startMeasure(instance, `patch`)
+        }
         patch(
           prevTree,
           nextTree,
@@ -944,6 +1073,9 @@ export function createRenderer<
           parentSuspense,
           isSVG
         )
+        if (__DEV__) {
+          endMeasure(instance, `patch`)
+        }
         instance.vnode.el = nextTree.el
         if (next === null) {
           // self-triggered update. In case of HOC, update parent component
@@ -957,10 +1089,16 @@ export function createRenderer<
         }
 
         if (__DEV__) {
+          devtoolsComponentUpdated(instance)
           popWarningContext()
         }
       }
-    }, __DEV__ ? createDevEffectOptions(instance) : prodEffectOptions)
+    }, __DEV__
+      ? createDevEffectOptions(instance)
+      : createProdEffectOptions(instance))
+    // sort key for the scheduler: parents are created, and therefore numbered,
+    // before their children
+    ;(instance.update as SchedulerJob).id = instance.uid
   }
 
   function updateComponentPreRender(
@@ -972,6 +1110,9 @@ export function createRenderer<
     instance.next = null
     resolveProps(instance, nextVNode.props, (nextVNode.type as Component).props)
     resolveSlots(instance, nextVNode.children)
+    // props update may have triggered pre-flush watchers. Flush them before
+    // the render update.
+    flushPreFlushCbs()
   }
 
   function patchChildren(
@@ -1365,25 +1506,55 @@ export function createRenderer<
   function move(
     vnode: HostVNode,
     container: HostElement,
-    anchor: HostNode | null
+    anchor: HostNode | null,
+    type: MoveType = MoveType.REORDER,
+    parentSuspense: HostSuspenseBoundary | null = null
   ) {
-    if (vnode.shapeFlag & ShapeFlags.COMPONENT) {
-      move(vnode.component!.subTree, container, anchor)
+    const { el, shapeFlag, transition } = vnode
+    if (shapeFlag & ShapeFlags.COMPONENT) {
+      move(vnode.component!.subTree, container, anchor, type, parentSuspense)
       return
     }
-    if (__FEATURE_SUSPENSE__ && vnode.shapeFlag & ShapeFlags.SUSPENSE) {
+    if (__FEATURE_SUSPENSE__ && shapeFlag & ShapeFlags.SUSPENSE) {
       vnode.suspense!.move(container, anchor)
       return
     }
     if (vnode.type === Fragment) {
-      hostInsert(vnode.el!, container, anchor)
+      hostInsert(el!, container, anchor)
       const children = vnode.children as HostVNode[]
       for (let i = 0; i < children.length; i++) {
-        move(children[i], container, anchor)
+        move(children[i], container, anchor, type, parentSuspense)
       }
       hostInsert(vnode.anchor!, container, anchor)
+    } else if (
+      type !== MoveType.REORDER &&
+      transition != null &&
+      shapeFlag & ShapeFlags.ELEMENT
+    ) {
+      if (type === MoveType.ENTER) {
+        transition.beforeEnter(el as HostElement)
+        hostInsert(el!, container, anchor)
+        queuePostRenderEffect(
+          () => transition.enter(el as HostElement),
+          parentSuspense
+        )
+      } else {
+        const { leave, delayLeave, afterLeave } = transition
+        const moveOut = () => hostInsert(el!, container, anchor)
+        const performLeave = () => {
+          leave(el as HostElement, () => {
+            moveOut()
+            afterLeave && afterLeave()
+          })
+        }
+        if (delayLeave) {
+          delayLeave(el as HostElement, moveOut, performLeave)
+        } else {
+          performLeave()
+        }
+      }
     } else {
-      hostInsert(vnode.el!, container, anchor)
+      hostInsert(el!, container, anchor)
     }
   }
 
@@ -1393,15 +1564,7 @@ export function createRenderer<
     parentSuspense: HostSuspenseBoundary | null,
     doRemove?: boolean
   ) {
-    const {
-      props,
-      ref,
-      type,
-      children,
-      dynamicChildren,
-      shapeFlag,
-      anchor
-    } = vnode
+    const { props, ref, type, children, dynamicChildren, shapeFlag } = vnode
 
     // unset ref
     if (ref !== null && parentComponent !== null) {
@@ -1444,8 +1607,7 @@ export function createRenderer<
     }
 
     if (doRemove) {
-      hostRemove(vnode.el!)
-      if (anchor != null) hostRemove(anchor)
+      remove(vnode)
     }
 
     if (props != null && props.onVnodeUnmounted != null) {
@@ -1455,25 +1617,60 @@ export function createRenderer<
     }
   }
 
+  function remove(vnode: HostVNode) {
+    const { el, anchor, transition } = vnode
+    if (anchor != null) {
+      // fragment: children have already been removed
+      hostRemove(el!)
+      hostRemove(anchor)
+      return
+    }
+    const performRemove = () => {
+      hostRemove(el!)
+      if (transition != null && transition.afterLeave) {
+        transition.afterLeave()
+      }
+    }
+    if (
+      transition != null &&
+      !transition.persisted &&
+      vnode.shapeFlag & ShapeFlags.ELEMENT
+    ) {
+      // the element is only removed once its leave transition is finished
+      const { leave, delayLeave } = transition
+      const performLeave = () => leave(el as HostElement, performRemove)
+      if (delayLeave) {
+        delayLeave(el as HostElement, performRemove, performLeave)
+      } else {
+        performLeave()
+      }
+    } else {
+      performRemove()
+    }
+  }
+
   function unmountComponent(
     instance: ComponentInternalInstance,
     parentSuspense: HostSuspenseBoundary | null,
     doRemove?: boolean
   ) {
-    const { bum, effects, update, subTree, um, da, isDeactivated } = instance
+    if (__DEV__ && (instance.type as ComponentOptions).__hmrId != null) {
+      unregisterHMR(instance)
+    }
+
+    const { bum, scope, update, subTree, um, da, isDeactivated } = instance
     // beforeUnmount hook
     if (bum !== null) {
       invokeHooks(bum)
     }
-    if (effects !== null) {
-      for (let i = 0; i < effects.length; i++) {
-        stop(effects[i])
-      }
-    }
+    // stops the effects, computed and watchers of the instance, as well as
+    // its render effect
+    scope.stop()
     // update may be null if a component is unmounted before its async
     // setup has resolved.
     if (update !== null) {
-      stop(update)
+      // a pending update must not re-render the unmounted component
+      invalidateJob(update)
       unmount(subTree, instance, parentSuspense, doRemove)
     }
     // unmounted hook
@@ -1491,6 +1688,9 @@ export function createRenderer<
     queuePostFlushCb(() => {
       instance.isUnmounted = true
     })
+    if (__DEV__) {
+      devtoolsComponentRemoved(instance)
+    }
 
     // A component with async dep inside a pending suspense is unmounted before
     // its async dep resolves. This should remove the dep from the suspense, and
@@ -1532,43 +1732,6 @@ export function createRenderer<
     return hostNextSibling((vnode.anchor || vnode.el)!)
   }
 
-  function setRef(
-    ref: string | Function | Ref,
-    oldRef: string | Function | Ref | null,
-    parent: ComponentInternalInstance,
-    value: HostNode | ComponentPublicInstance | null
-  ) {
-    const refs = parent.refs === EMPTY_OBJ ? (parent.refs = {}) : parent.refs
-    const renderContext = toRaw(parent.renderContext)
-
-    // unset old ref
-    if (oldRef !== null && oldRef !== ref) {
-      if (isString(oldRef)) {
-        refs[oldRef] = null
-        const oldSetupRef = renderContext[oldRef]
-        if (isRef(oldSetupRef)) {
-          oldSetupRef.value = null
-        }
-      } else if (isRef(oldRef)) {
-        oldRef.value = null
-      }
-    }
-
-    if (isString(ref)) {
-      const setupRef = renderContext[ref]
-      if (isRef(setupRef)) {
-        setupRef.value = value
-      }
-      refs[ref] = value
-    } else if (isRef(ref)) {
-      ref.value = value
-    } else if (isFunction(ref)) {
-      callWithErrorHandling(ref, parent, ErrorCodes.FUNCTION_REF, [value, refs])
-    } else if (__DEV__) {
-      warn('Invalid template ref type:', value, `(${typeof value})`)
-    }
-  }
-
   const render: RootRenderFunction<
     HostNode,
     HostElement & {
@@ -1588,7 +1751,46 @@ export function createRenderer<
 
   return {
     render,
-    createApp: createAppAPI(render)
+    hydrate,
+    createApp: createAppAPI(render),
+    createSSRApp: createAppAPI(render, hydrate)
+  }
+}
+
+export function setRef(
+  ref: string | Function | Ref,
+  oldRef: string | Function | Ref | null,
+  parent: ComponentInternalInstance,
+  value: object | null
+) {
+  const refs = parent.refs === EMPTY_OBJ ? (parent.refs = {}) : parent.refs
+  const renderContext = toRaw(parent.renderContext)
+
+  // unset old ref
+  if (oldRef !== null && oldRef !== ref) {
+    if (isString(oldRef)) {
+      refs[oldRef] = null
+      const oldSetupRef = renderContext[oldRef]
+      if (isRef(oldSetupRef)) {
+        oldSetupRef.value = null
+      }
+    } else if (isRef(oldRef)) {
+      oldRef.value = null
+    }
+  }
+
+  if (isString(ref)) {
+    const setupRef = renderContext[ref]
+    if (isRef(setupRef)) {
+      setupRef.value = value
+    }
+    refs[ref] = value
+  } else if (isRef(ref)) {
+    ref.value = value
+  } else if (isFunction(ref)) {
+    callWithErrorHandling(ref, parent, ErrorCodes.FUNCTION_REF, [value, refs])
+  } else if (__DEV__) {
+    warn('Invalid template ref type:', value, `(${typeof value})`)
   }
 }
 
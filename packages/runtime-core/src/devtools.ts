@@ -0,0 +1,186 @@
+import { App } from './apiApp'
+import { ComponentInternalInstance, ComponentOptions, Data } from './component'
+import { VNode, isVNode } from './vnode'
+import { ShapeFlags } from './shapeFlags'
+import { formatComponentName } from './warning'
+import { toRaw } from '@vue/reactivity'
+import {
+  isArray,
+  isFunction,
+  isObject,
+  extend,
+  hasOwn,
+  getGlobalThis
+} from '@vue/shared'
+
+// A devtools extension installs a hook object on the global scope before the
+// app is created. The runtime reports app and component lifecycle events to
+// it so that the extension can keep its own copy of the component tree.
+
+export interface DevtoolsHook {
+  emit: (event: string, ...payload: any[]) => void
+}
+
+export const enum DevtoolsHooks {
+  APP_INIT = 'app:init',
+  APP_UNMOUNT = 'app:unmount',
+  COMPONENT_ADDED = 'component:added',
+  COMPONENT_UPDATED = 'component:updated',
+  COMPONENT_REMOVED = 'component:removed',
+  COMPONENT_EMIT = 'component:emit'
+}
+
+export interface ComponentTreeNode {
+  uid: number
+  name: string
+  props: Data
+  setupState: Data
+  data: Data
+  computed: Data
+  provides: Data
+  children: ComponentTreeNode[]
+}
+
+let devtools: DevtoolsHook | undefined
+
+// explicitly set the hook instead of relying on the global one
+export function setDevtoolsHook(hook: DevtoolsHook | undefined) {
+  devtools = hook
+}
+
+function getDevtoolsHook(): DevtoolsHook | undefined {
+  if (devtools) {
+    return devtools
+  }
+  return getGlobalThis().__VUE_DEVTOOLS_GLOBAL_HOOK__
+}
+
+function emit(app: App | null, event: DevtoolsHooks, ...payload: any[]) {
+  if (!app || !app.config.devtools) {
+    return
+  }
+  const hook = getDevtoolsHook()
+  if (hook) {
+    hook.emit(event, app, ...payload)
+  }
+}
+
+export function devtoolsInitApp(app: App, version: string) {
+  emit(app, DevtoolsHooks.APP_INIT, version)
+}
+
+export function devtoolsUnmountApp(app: App) {
+  emit(app, DevtoolsHooks.APP_UNMOUNT)
+}
+
+export function devtoolsComponentAdded(instance: ComponentInternalInstance) {
+  emitComponentEvent(DevtoolsHooks.COMPONENT_ADDED, instance)
+}
+
+export function devtoolsComponentUpdated(instance: ComponentInternalInstance) {
+  emitComponentEvent(DevtoolsHooks.COMPONENT_UPDATED, instance)
+}
+
+export function devtoolsComponentRemoved(instance: ComponentInternalInstance) {
+  emitComponentEvent(DevtoolsHooks.COMPONENT_REMOVED, instance)
+}
+
+export function devtoolsComponentEmit(
+  instance: ComponentInternalInstance,
+  event: string,
+  args: unknown[]
+) {
+  emit(
+    instance.appContext.app,
+    DevtoolsHooks.COMPONENT_EMIT,
+    instance,
+    event,
+    args
+  )
+}
+
+function emitComponentEvent(
+  event: DevtoolsHooks,
+  instance: ComponentInternalInstance
+) {
+  emit(
+    instance.appContext.app,
+    event,
+    instance.uid,
+    instance.parent ? instance.parent.uid : undefined,
+    instance
+  )
+}
+
+// Inspection ------------------------------------------------------------------
+
+// Returns a plain snapshot of the component tree rooted at the given instance,
+// for display in the devtools' component inspector.
+export function getComponentTree(
+  instance: ComponentInternalInstance
+): ComponentTreeNode {
+  const Component = instance.type as ComponentOptions
+  const isStateful = !isFunction(Component)
+  const computedOptions = (isStateful && Component.computed) || {}
+  const node: ComponentTreeNode = {
+    uid: instance.uid,
+    name: formatComponentName(instance.vnode),
+    props: extend({}, toRaw(instance.props)),
+    setupState: {},
+    data: extend({}, toRaw(instance.data)),
+    computed: {},
+    provides: {},
+    children: []
+  }
+
+  // computed, methods and injections are stored on the render context
+  // together with the bindings returned from setup()
+  const context = instance.renderContext
+  for (const key in toRaw(context)) {
+    if (hasOwn(computedOptions, key)) {
+      node.computed[key] = context[key]
+    } else if (!isOptionsKey(Component, key)) {
+      node.setupState[key] = context[key]
+    }
+  }
+
+  // only the values provided by this component itself
+  const { provides, parent } = instance
+  if (!parent || provides !== parent.provides) {
+    Reflect.ownKeys(provides).forEach(key => {
+      // TS doesn't allow symbol as index type
+      node.provides[key as string] = provides[key as string]
+    })
+  }
+
+  collectChildren(instance.subTree, node.children)
+  return node
+}
+
+function isOptionsKey(Component: ComponentOptions, key: string): boolean {
+  const { methods, inject } = Component
+  return (
+    (isObject(methods) && hasOwn(methods, key)) ||
+    (isArray(inject) ? inject.includes(key) : isObject(inject) && key in inject)
+  )
+}
+
+function collectChildren(
+  vnode: VNode | null | undefined,
+  children: ComponentTreeNode[]
+) {
+  if (!vnode) {
+    return
+  }
+  if (vnode.component) {
+    children.push(getComponentTree(vnode.component))
+  } else if (vnode.shapeFlag & ShapeFlags.SUSPENSE && vnode.suspense) {
+    collectChildren(vnode.suspense.subTree, children)
+  } else if (isArray(vnode.children)) {
+    vnode.children.forEach(child => {
+      if (isVNode(child)) {
+        collectChildren(child, children)
+      }
+    })
+  }
+}
@@ -17,7 +17,10 @@ export const enum ErrorCodes {
   APP_ERROR_HANDLER,
   APP_WARN_HANDLER,
   FUNCTION_REF,
-  SCHEDULER
+  SCHEDULER,
+  SERVER_PREFETCH,
+  TRANSITION_HOOK,
+  ASYNC_COMPONENT_LOADER
 }
 
 export const ErrorTypeStrings: Record<number | string, string> = {
@@ -45,6 +48,9 @@ export const ErrorTypeStrings: Record<number | string, string> = {
   [ErrorCodes.APP_ERROR_HANDLER]: 'app errorHandler',
   [ErrorCodes.APP_WARN_HANDLER]: 'app warnHandler',
   [ErrorCodes.FUNCTION_REF]: 'ref function',
+  [ErrorCodes.SERVER_PREFETCH]: 'serverPrefetch hook',
+  [ErrorCodes.TRANSITION_HOOK]: 'transition hook',
+  [ErrorCodes.ASYNC_COMPONENT_LOADER]: 'async component loader',
   [ErrorCodes.SCHEDULER]:
     'scheduler flush. This is likely a Vue internals bug. ' +
     'Please open an issue at https://new-issue.vuejs.org/?repo=vuejs/vue'
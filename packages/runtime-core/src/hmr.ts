@@ -0,0 +1,113 @@
+import {
+  ComponentInternalInstance,
+  ComponentOptions,
+  RenderFunction
+} from './component'
+import { queueJob, queuePostFlushCb } from './scheduler'
+import { extend, getGlobalThis } from '@vue/shared'
+
+// Runtime side of hot module replacement. The bundler plugin injects an
+// `__hmrId` into each component's options and talks to the runtime through the
+// global `__VUE_HMR_RUNTIME__` object. Dev only.
+
+export interface HMRRuntime {
+  createRecord: typeof createRecord
+  rerender: typeof rerender
+  reload: typeof reload
+}
+
+// set while an instance re-renders because of a hot update, so that the
+// renderer skips its optimized fast paths: the compiler hints of the old and
+// new render output may not match anymore.
+export let isHmrUpdating = false
+
+// components whose options have just been replaced. Their vnodes are treated
+// as a different type so that existing instances get remounted.
+export const hmrDirtyComponents = new Set<ComponentOptions>()
+
+const map = new Map<string, Set<ComponentInternalInstance>>()
+
+if (__DEV__) {
+  getGlobalThis().__VUE_HMR_RUNTIME__ = {
+    createRecord,
+    rerender,
+    reload
+  } as HMRRuntime
+}
+
+export function registerHMR(instance: ComponentInternalInstance) {
+  const id = (instance.type as ComponentOptions).__hmrId!
+  let record = map.get(id)
+  if (!record) {
+    createRecord(id)
+    record = map.get(id)!
+  }
+  record.add(instance)
+}
+
+export function unregisterHMR(instance: ComponentInternalInstance) {
+  map.get((instance.type as ComponentOptions).__hmrId!)!.delete(instance)
+}
+
+function createRecord(id: string): boolean {
+  if (map.has(id)) {
+    return false
+  }
+  map.set(id, new Set())
+  return true
+}
+
+function rerender(id: string, newRender?: RenderFunction) {
+  const record = map.get(id)
+  if (!record) {
+    return
+  }
+  // copy the set since re-rendering may unmount or mount instances
+  Array.from(record).forEach(instance => {
+    if (newRender) {
+      instance.render = newRender
+      // instances mounted from now on use the new render function as well
+      ;(instance.type as ComponentOptions).render = newRender
+    }
+    instance.renderCache = null
+    isHmrUpdating = true
+    try {
+      instance.update()
+    } finally {
+      isHmrUpdating = false
+    }
+  })
+}
+
+function reload(id: string, newComp: ComponentOptions) {
+  const record = map.get(id)
+  if (!record) {
+    return
+  }
+  Array.from(record).forEach(instance => {
+    const comp = instance.type as ComponentOptions
+    if (!hmrDirtyComponents.has(comp)) {
+      // the options object is shared by every instance and by the parents'
+      // render functions, so it is updated in place
+      extend(comp, newComp)
+      for (const key in comp) {
+        if (!(key in newComp)) {
+          delete (comp as any)[key]
+        }
+      }
+      hmrDirtyComponents.add(comp)
+      queuePostFlushCb(() => {
+        hmrDirtyComponents.delete(comp)
+      })
+    }
+    if (instance.parent) {
+      // re-render the parent: it keeps its own state while the dirty child
+      // is remounted with the new options
+      queueJob(instance.parent.update)
+    } else if (instance.appContext.reload) {
+      instance.appContext.reload()
+    } else if (typeof window !== 'undefined') {
+      window.location.reload()
+    }
+  })
+}
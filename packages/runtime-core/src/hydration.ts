@@ -0,0 +1,530 @@
+import {
+  VNode,
+  normalizeVNode,
+  Text,
+  Comment,
+  Fragment,
+  Portal,
+  VNodeChildren
+} from './vnode'
+import { ComponentInternalInstance } from './component'
+import { SuspenseBoundary } from './suspense'
+import { flushPostFlushCbs } from './scheduler'
+import { invokeDirectiveHook } from './directives'
+import { ShapeFlags } from './shapeFlags'
+import { warn } from './warning'
+import {
+  RendererInternals,
+  queuePostRenderEffect,
+  setRef
+} from './createRenderer'
+import { isString, isOn, isReservedProp } from '@vue/shared'
+
+export type RootHydrateFunction<HostNode = Node, HostElement = Element> = (
+  vnode: VNode<HostNode, HostElement>,
+  container: HostElement
+) => void
+
+export type HydrateNodeFunction<HostNode = Node, HostElement = Element> = (
+  node: HostNode | null,
+  vnode: VNode<HostNode, HostElement>,
+  container: HostElement,
+  parentComponent: ComponentInternalInstance | null,
+  parentSuspense: SuspenseBoundary<HostNode, HostElement> | null,
+  optimized?: boolean
+) => HostNode | null
+
+const enum DOMNodeTypes {
+  ELEMENT = 1,
+  TEXT = 3,
+  COMMENT = 8
+}
+
+const isSVGContainer = (container: Element) =>
+  /svg/.test(container.namespaceURI!) && container.tagName !== 'foreignObject'
+
+// the server renderer marks fragments with `<!--[-->` and `<!--]-->`, and
+// portal placeholders with an empty comment.
+const isAnchor = (
+  node: Node | null,
+  data: string
+): node is globalThis.Comment =>
+  node !== null &&
+  node.nodeType === DOMNodeTypes.COMMENT &&
+  (node as globalThis.Comment).data === data
+
+// finds the end anchor of the server-rendered fragment starting at `start`,
+// skipping the anchors of nested fragments.
+function locateClosingAnchor(start: Node): Node | null {
+  let depth = 0
+  let node = start.nextSibling
+  while (node !== null) {
+    if (isAnchor(node, '[')) {
+      depth++
+    } else if (isAnchor(node, ']')) {
+      if (depth === 0) {
+        return node
+      }
+      depth--
+    }
+    node = node.nextSibling
+  }
+  return null
+}
+
+// mismatches are counted on the app even in production, so that they can be
+// monitored without the dev build.
+function recordMismatch(
+  vnode: VNode,
+  parentComponent: ComponentInternalInstance | null
+) {
+  const appContext = parentComponent
+    ? parentComponent.appContext
+    : vnode.appContext
+  if (appContext !== null) {
+    appContext.hydrationMismatches++
+  }
+}
+
+function warnNodeMismatch(vnode: VNode, node: Node | null) {
+  warn(
+    `Hydration node mismatch:\n- Client vnode:`,
+    vnode.type,
+    `\n- Server rendered DOM:`,
+    node
+  )
+}
+
+/**
+ * Hydration adopts the DOM rendered by @vue/server-renderer instead of
+ * creating it. It walks the existing nodes alongside the vnode tree, so it is
+ * DOM-specific - but it lives in core because it is tightly coupled with the
+ * renderer's component mounting logic. The returned functions are typed with
+ * the renderer's host types so it can call them like `render`, but those
+ * types are expected to be DOM nodes.
+ */
+export function createHydrationFunctions<HostNode, HostElement>(
+  internals: RendererInternals<HostNode, HostElement>
+): [
+  RootHydrateFunction<HostNode, HostElement>,
+  HydrateNodeFunction<HostNode, HostElement>
+]
+export function createHydrationFunctions({
+  mountComponent,
+  patch,
+  next,
+  options: {
+    patchProp,
+    createText,
+    createComment,
+    insert,
+    remove,
+    querySelector
+  }
+}: RendererInternals<Node, Element>) {
+  // tracks the node to continue from when multiple portals share a target
+  const portalTargetAnchors = new WeakMap<Element, Node | null>()
+
+  const hydrate: RootHydrateFunction<
+    Node,
+    Element & {
+      _vnode?: VNode | null
+    }
+  > = (vnode, container) => {
+    if (!container.hasChildNodes()) {
+      __DEV__ &&
+        warn(
+          `Attempting to hydrate existing markup but container is empty. ` +
+            `Performing full mount instead.`
+        )
+      recordMismatch(vnode, null)
+      patch(null, vnode, container)
+    } else {
+      const rest = hydrateNode(
+        container.firstChild,
+        vnode,
+        container,
+        null,
+        null
+      )
+      removeExtraneousNodes(rest, container, vnode, null)
+    }
+    flushPostFlushCbs()
+    // same as render(), so the tree can be patched or unmounted later.
+    container._vnode = vnode
+  }
+
+  function hydrateNode(
+    node: Node | null,
+    vnode: VNode,
+    container: Element,
+    parentComponent: ComponentInternalInstance | null,
+    parentSuspense: SuspenseBoundary | null,
+    optimized: boolean = false
+  ): Node | null {
+    const { type, shapeFlag, ref } = vnode
+    switch (type) {
+      case Text: {
+        const text = vnode.children as string
+        if (node === null || node.nodeType !== DOMNodeTypes.TEXT) {
+          if (text !== '') {
+            recordMismatch(vnode, parentComponent)
+            if (__DEV__) {
+              warnNodeMismatch(vnode, node)
+            }
+          }
+          // empty text produces no markup on the server, so there may be no
+          // node to adopt. Otherwise leave the mismatched node in place, it
+          // may belong to the next vnode.
+          insert((vnode.el = createText(text)), container, node)
+          return node
+        }
+        const textNode = node as globalThis.Text
+        const data = textNode.data
+        if (data !== text) {
+          if (data.length > text.length && data.startsWith(text)) {
+            // adjacent text vnodes are merged into a single DOM text node by
+            // the server renderer - split it back up.
+            textNode.splitText(text.length)
+          } else {
+            recordMismatch(vnode, parentComponent)
+            if (__DEV__) {
+              warn(
+                `Hydration text mismatch:` +
+                  `\n- Client: ${JSON.stringify(text)}` +
+                  `\n- Server: ${JSON.stringify(data)}`
+              )
+            }
+            textNode.data = text
+          }
+        }
+        vnode.el = node
+        return node.nextSibling
+      }
+      case Comment:
+        if (node === null || node.nodeType !== DOMNodeTypes.COMMENT) {
+          return handleMismatch(
+            node,
+            vnode,
+            container,
+            parentComponent,
+            parentSuspense
+          )
+        }
+        vnode.el = node
+        return node.nextSibling
+      case Fragment:
+        if (node === null) {
+          return handleMismatch(
+            node,
+            vnode,
+            container,
+            parentComponent,
+            parentSuspense
+          )
+        }
+        return hydrateFragment(
+          node,
+          vnode,
+          container,
+          parentComponent,
+          parentSuspense,
+          optimized
+        )
+      case Portal:
+        hydratePortal(vnode, parentComponent, parentSuspense, optimized)
+        // the portal leaves an empty placeholder comment in place
+        return hydrateAnchor(node, vnode, container, parentComponent, 'el', '')
+      default:
+        if (shapeFlag & ShapeFlags.ELEMENT) {
+          if (
+            node === null ||
+            node.nodeType !== DOMNodeTypes.ELEMENT ||
+            (node as Element).tagName.toLowerCase() !==
+              (type as string).toLowerCase()
+          ) {
+            return handleMismatch(
+              node,
+              vnode,
+              container,
+              parentComponent,
+              parentSuspense
+            )
+          }
+          const nextNode = hydrateElement(
+            node as Element,
+            vnode,
+            parentComponent,
+            parentSuspense,
+            optimized
+          )
+          if (ref !== null && parentComponent !== null) {
+            setRef(ref, null, parentComponent, vnode.el)
+          }
+          return nextNode
+        } else if (shapeFlag & ShapeFlags.COMPONENT) {
+          if (node === null) {
+            return handleMismatch(
+              node,
+              vnode,
+              container,
+              parentComponent,
+              parentSuspense
+            )
+          }
+          // the component hydrates its sub tree against this node instead
+          // of mounting it when setting up its render effect.
+          vnode.el = node
+          mountComponent(
+            vnode,
+            container,
+            null,
+            parentComponent,
+            parentSuspense,
+            isSVGContainer(container),
+            true
+          )
+          if (ref !== null && parentComponent !== null) {
+            setRef(ref, null, parentComponent, vnode.component!.renderProxy)
+          }
+          return next(vnode)
+        } else if (__FEATURE_SUSPENSE__ && shapeFlag & ShapeFlags.SUSPENSE) {
+          if (__DEV__) {
+            warn(`Suspense is not yet supported in hydration.`)
+          }
+          return node && node.nextSibling
+        } else if (__DEV__) {
+          warn('Invalid HostVNode type:', type, `(${typeof type})`)
+        }
+        return null
+    }
+  }
+
+  function hydrateElement(
+    el: Element,
+    vnode: VNode,
+    parentComponent: ComponentInternalInstance | null,
+    parentSuspense: SuspenseBoundary | null,
+    optimized: boolean
+  ): Node | null {
+    vnode.el = el
+    optimized = optimized || vnode.dynamicChildren !== null
+    const { props, shapeFlag, children } = vnode
+    if (props !== null) {
+      // attributes are already present in the server-rendered markup, only
+      // event listeners need to be attached.
+      for (const key in props) {
+        if (!isReservedProp(key) && isOn(key)) {
+          patchProp(el, key, props[key], null, false)
+        }
+      }
+      if (props.onVnodeBeforeMount != null) {
+        invokeDirectiveHook(props.onVnodeBeforeMount, parentComponent, vnode)
+      }
+      if (props.onVnodeMounted != null) {
+        queuePostRenderEffect(() => {
+          invokeDirectiveHook(props.onVnodeMounted, parentComponent, vnode)
+        }, parentSuspense)
+      }
+    }
+    // children are overridden by innerHTML / textContent
+    if (props === null || !(props.innerHTML || props.textContent)) {
+      if (shapeFlag & ShapeFlags.ARRAY_CHILDREN) {
+        const rest = hydrateChildren(
+          el.firstChild,
+          children as VNodeChildren,
+          el,
+          parentComponent,
+          parentSuspense,
+          optimized
+        )
+        removeExtraneousNodes(rest, el, vnode, parentComponent)
+      } else if (
+        shapeFlag & ShapeFlags.TEXT_CHILDREN &&
+        el.textContent !== children
+      ) {
+        recordMismatch(vnode, parentComponent)
+        if (__DEV__) {
+          warn(
+            `Hydration text content mismatch in <${el.tagName.toLowerCase()}>:` +
+              `\n- Client: ${JSON.stringify(children)}` +
+              `\n- Server: ${JSON.stringify(el.textContent)}`
+          )
+        }
+        el.textContent = children as string
+      }
+    }
+    return el.nextSibling
+  }
+
+  function hydrateChildren(
+    node: Node | null,
+    children: VNodeChildren,
+    container: Element,
+    parentComponent: ComponentInternalInstance | null,
+    parentSuspense: SuspenseBoundary | null,
+    optimized: boolean
+  ): Node | null {
+    for (let i = 0; i < children.length; i++) {
+      const vnode = optimized
+        ? (children[i] as VNode)
+        : (children[i] = normalizeVNode(children[i]))
+      node = hydrateNode(
+        node,
+        vnode,
+        container,
+        parentComponent,
+        parentSuspense,
+        optimized
+      )
+    }
+    return node
+  }
+
+  function hydrateFragment(
+    node: Node,
+    vnode: VNode,
+    container: Element,
+    parentComponent: ComponentInternalInstance | null,
+    parentSuspense: SuspenseBoundary | null,
+    optimized: boolean
+  ): Node | null {
+    // a fragment's children are enclosed by two comment anchors
+    const start = hydrateAnchor(
+      node,
+      vnode,
+      container,
+      parentComponent,
+      'el',
+      '['
+    )
+    const end = hydrateChildren(
+      start,
+      vnode.children as VNodeChildren,
+      container,
+      parentComponent,
+      parentSuspense,
+      optimized
+    )
+    return hydrateAnchor(end, vnode, container, parentComponent, 'anchor', ']')
+  }
+
+  // adopts the comment used as a fragment anchor or portal placeholder, or
+  // creates it if it is missing from the server-rendered markup.
+  function hydrateAnchor(
+    node: Node | null,
+    vnode: VNode,
+    container: Element,
+    parentComponent: ComponentInternalInstance | null,
+    key: 'el' | 'anchor',
+    data: string
+  ): Node | null {
+    if (isAnchor(node, data)) {
+      vnode[key] = node
+      return node.nextSibling
+    }
+    recordMismatch(vnode, parentComponent)
+    if (__DEV__) {
+      warn(
+        `Hydration anchor mismatch: expected <!--${data}-->.` +
+          `\n- Server rendered DOM:`,
+        node
+      )
+    }
+    insert((vnode[key] = createComment('')), container, node)
+    return node
+  }
+
+  function hydratePortal(
+    vnode: VNode,
+    parentComponent: ComponentInternalInstance | null,
+    parentSuspense: SuspenseBoundary | null,
+    optimized: boolean
+  ) {
+    const targetSelector = vnode.props && vnode.props.target
+    const target = (vnode.target = isString(targetSelector)
+      ? querySelector(targetSelector)
+      : targetSelector)
+    if (target != null) {
+      if (vnode.shapeFlag & ShapeFlags.ARRAY_CHILDREN) {
+        portalTargetAnchors.set(
+          target,
+          hydrateChildren(
+            portalTargetAnchors.has(target)
+              ? portalTargetAnchors.get(target)!
+              : target.firstChild,
+            vnode.children as VNodeChildren,
+            target,
+            parentComponent,
+            parentSuspense,
+            optimized
+          )
+        )
+      }
+    } else if (__DEV__) {
+      warn('Invalid Portal target on hydration:', target, `(${typeof target})`)
+    }
+  }
+
+  // replaces the mismatched server-rendered node with a freshly mounted one,
+  // so the rest of the tree can still be hydrated.
+  function handleMismatch(
+    node: Node | null,
+    vnode: VNode,
+    container: Element,
+    parentComponent: ComponentInternalInstance | null,
+    parentSuspense: SuspenseBoundary | null
+  ): Node | null {
+    recordMismatch(vnode, parentComponent)
+    if (__DEV__) {
+      warnNodeMismatch(vnode, node)
+    }
+    let nextNode = node && node.nextSibling
+    if (node !== null) {
+      // a server-rendered fragment is replaced as a whole, including its
+      // children and end anchor
+      const end = isAnchor(node, '[') ? locateClosingAnchor(node) : node
+      while (nextNode !== null && node !== end) {
+        remove(node)
+        node = nextNode
+        nextNode = node.nextSibling
+      }
+      remove(node)
+    }
+    patch(
+      null,
+      vnode,
+      container,
+      nextNode,
+      parentComponent,
+      parentSuspense,
+      isSVGContainer(container)
+    )
+    return nextNode
+  }
+
+  function removeExtraneousNodes(
+    node: Node | null,
+    container: Element,
+    vnode: VNode,
+    parentComponent: ComponentInternalInstance | null
+  ) {
+    if (node === null) {
+      return
+    }
+    recordMismatch(vnode, parentComponent)
+    if (__DEV__) {
+      warn(
+        `Hydration children mismatch in <${container.tagName.toLowerCase()}>: ` +
+          `server rendered element contains more child nodes than client vdom.`
+      )
+    }
+    while (node !== null) {
+      const nextNode: Node | null = node.nextSibling
+      remove(node)
+      node = nextNode
+    }
+  }
+
+  return [hydrate, hydrateNode]
+}
@@ -1,6 +1,7 @@
 // Public API ------------------------------------------------------------------
 
 export { createComponent } from './apiCreateComponent'
+export { defineAsyncComponent } from './apiAsyncComponent'
 export { nextTick } from './scheduler'
 export * from './apiReactivity'
 export * from './apiWatch'
@@ -15,6 +16,7 @@ export {
   createVNode,
   cloneVNode,
   mergeProps,
+  isVNode,
   openBlock,
   createBlock
 } from './vnode'
@@ -22,6 +24,7 @@ export {
 export { Text, Comment, Fragment, Portal, Suspense } from './vnode'
 // Internal Components
 export { KeepAlive } from './keepAlive'
+export { BaseTransition } from './baseTransition'
 // VNode flags
 export { PublicShapeFlags as ShapeFlags } from './shapeFlags'
 export { PublicPatchFlags as PatchFlags } from '@vue/shared'
@@ -29,13 +32,28 @@ export { PublicPatchFlags as PatchFlags } from '@vue/shared'
 // For advanced plugins
 export { getCurrentInstance } from './component'
 
+// For devtools
+export { setDevtoolsHook, getComponentTree } from './devtools'
+
+// For opting into time-sliced flushing of large updates
+export { enableTimeSlicing, disableTimeSlicing } from './scheduler'
+
+// For restoring state serialized during server-side rendering
+export { hydrateState } from './ssrState'
+
 // For custom renderers
 export { createRenderer } from './createRenderer'
+export {
+  useTransitionState,
+  resolveTransitionHooks,
+  setTransitionHooks
+} from './baseTransition'
 export { warn } from './warning'
 export {
   handleError,
   callWithErrorHandling,
-  callWithAsyncErrorHandling
+  callWithAsyncErrorHandling,
+  ErrorCodes
 } from './errorHandling'
 
 // Internal, for compiler generated code
@@ -60,13 +78,23 @@ export { registerRuntimeCompiler } from './component'
 // Types -----------------------------------------------------------------------
 
 export { App, AppConfig, AppContext, Plugin } from './apiApp'
+export {
+  AsyncComponentLoader,
+  AsyncComponentOptions
+} from './apiAsyncComponent'
 export { RawProps, RawChildren, RawSlots } from './h'
-export { VNode, VNodeTypes } from './vnode'
+export { VNode, VNodeTypes, VNodeChildren } from './vnode'
+export {
+  BaseTransitionProps,
+  TransitionHooks,
+  TransitionState
+} from './baseTransition'
 export {
   Component,
   FunctionalComponent,
   ComponentInternalInstance,
-  RenderFunction
+  RenderFunction,
+  SetupContext
 } from './component'
 export {
   ComponentOptions,
@@ -75,9 +103,14 @@ export {
   ComponentOptionsWithArrayProps
 } from './apiOptions'
 
-export { ComponentPublicInstance } from './componentProxy'
+export {
+  ComponentPublicInstance,
+  ComponentCustomProperties
+} from './componentProxy'
 export { RendererOptions } from './createRenderer'
+export { RootHydrateFunction } from './hydration'
 export { Slot, Slots } from './componentSlots'
+export { EmitsOptions, ObjectEmitsOptions } from './componentEmits'
 export {
   Prop,
   PropType,
@@ -93,5 +126,39 @@ export {
   DirectiveArguments
 } from './directives'
 export { SuspenseBoundary } from './suspense'
+export { DevtoolsHook, ComponentTreeNode } from './devtools'
+export { HMRRuntime } from './hmr'
+export { SchedulerAdapter, TimeSlicingOptions } from './scheduler'
 
 export const version = __VERSION__
+
+// SSR -------------------------------------------------------------------------
+
+// **IMPORTANT** These APIs are exposed solely for @vue/server-renderer and may
+// change without notice between versions. User code should never rely on them.
+
+import {
+  createComponentInstance,
+  setupComponent,
+  resolvePropsAndSlots,
+  setupStatefulComponent,
+  handleSetupResult
+} from './component'
+import {
+  renderComponentRoot,
+  setCurrentRenderingInstance
+} from './componentRenderUtils'
+import { normalizeVNode, normalizeClass, normalizeStyle } from './vnode'
+
+export const ssrUtils = {
+  createComponentInstance,
+  setupComponent,
+  resolvePropsAndSlots,
+  setupStatefulComponent,
+  handleSetupResult,
+  renderComponentRoot,
+  setCurrentRenderingInstance,
+  normalizeVNode,
+  normalizeClass,
+  normalizeStyle
+}
@@ -17,7 +17,8 @@ import { SuspenseBoundary } from './suspense'
 import {
   RendererInternals,
   queuePostRenderEffect,
-  invokeHooks
+  invokeHooks,
+  MoveType
 } from './createRenderer'
 
 type MatchPattern = string | RegExp | string[] | RegExp[]
@@ -60,6 +61,17 @@ export const KeepAlive = {
     // The whole point of this is to avoid importing KeepAlive directly in the
     // renderer to facilitate tree-shaking.
     const sink = instance.sink as KeepAliveSink
+
+    // the renderer internals are not injected during server-side rendering,
+    // in which case there is nothing to cache and we just render the children.
+    if (!sink.renderer) {
+      return () => {
+        const children = slots.default && slots.default()
+        // render a single child as-is, same as on the client
+        return children && children.length === 1 ? children[0] : children
+      }
+    }
+
     const {
       renderer: {
         move,
@@ -71,7 +83,7 @@ export const KeepAlive = {
     const storageContainer = createElement('div')
 
     sink.activate = (vnode, container, anchor) => {
-      move(vnode, container, anchor)
+      move(vnode, container, anchor, MoveType.ENTER, parentSuspense)
       queuePostRenderEffect(() => {
         const component = vnode.component!
         component.isDeactivated = false
@@ -82,7 +94,7 @@ export const KeepAlive = {
     }
 
     sink.deactivate = (vnode: VNode) => {
-      move(vnode, storageContainer, null)
+      move(vnode, storageContainer, null, MoveType.LEAVE, parentSuspense)
       queuePostRenderEffect(() => {
         const component = vnode.component!
         if (component.da !== null) {
@@ -208,6 +220,9 @@ if (__DEV__) {
   }
 }
 
+export const isKeepAlive = (vnode: VNode): boolean =>
+  (vnode.type as any).__isKeepAlive
+
 function getName(comp: Component): string | void {
   return (comp as FunctionalComponent).displayName || comp.name
 }
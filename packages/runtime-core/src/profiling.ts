@@ -0,0 +1,50 @@
+import { ComponentInternalInstance } from './component'
+import { formatComponentName } from './warning'
+
+// Records User Timing entries (visible in the browser's performance panel and
+// through Node's perf_hooks) for component phases when
+// `app.config.performance` is enabled. Dev only.
+
+let supported: boolean
+let perf: Performance
+
+export function startMeasure(
+  instance: ComponentInternalInstance,
+  type: string
+) {
+  if (instance.appContext.config.performance && isSupported()) {
+    perf.mark(`vue-${type}-${instance.uid}`)
+  }
+}
+
+export function endMeasure(instance: ComponentInternalInstance, type: string) {
+  if (instance.appContext.config.performance && isSupported()) {
+    const startTag = `vue-${type}-${instance.uid}`
+    const endTag = startTag + `:end`
+    perf.mark(endTag)
+    perf.measure(
+      `<${formatComponentName(instance.vnode)}> ${type}`,
+      startTag,
+      endTag
+    )
+    perf.clearMarks(startTag)
+    perf.clearMarks(endTag)
+  }
+}
+
+function isSupported() {
+  if (supported !== undefined) {
+    return supported
+  }
+  if (
+    typeof performance !== 'undefined' &&
+    typeof performance.mark === 'function' &&
+    typeof performance.measure === 'function'
+  ) {
+    supported = true
+    perf = performance
+  } else {
+    supported = false
+  }
+  return supported
+}
@@ -1,24 +1,118 @@
 import { ErrorCodes, callWithErrorHandling } from './errorHandling'
-import { isArray } from '@vue/shared'
+import { isArray, getGlobalThis } from '@vue/shared'
 
-const queue: Function[] = []
+export interface SchedulerJob {
+  (): void
+  // uid of the component the job updates. Jobs are flushed in ascending id
+  // order so that a parent is always updated before its children: a child
+  // updated first might be updated again or even unmounted by its parent.
+  id?: number
+}
+
+const queue: SchedulerJob[] = []
+const preFlushCbs: Function[] = []
 const postFlushCbs: Function[] = []
 const p = Promise.resolve()
+// resolves once the pending flush, including all of its slices, is done
+let currentFlushPromise: Promise<void> | null = null
 
 let isFlushing = false
 let isFlushPending = false
 
 export function nextTick(fn?: () => void): Promise<void> {
-  return fn ? p.then(fn) : p
+  const promise = currentFlushPromise || p
+  return fn ? promise.then(fn) : promise
+}
+
+// Time slicing ----------------------------------------------------------------
+
+// Lets the host run between two slices of a flush.
+export interface SchedulerAdapter {
+  now(): number
+  // call `resume` once the host is idle again
+  requestSlice(resume: () => void): void
+}
+
+export interface TimeSlicingOptions {
+  // time in ms that component updates may run before yielding to the host
+  budget?: number
+  adapter?: SchedulerAdapter
+}
+
+const defaultAdapter: SchedulerAdapter = {
+  now() {
+    return typeof performance !== 'undefined' ? performance.now() : Date.now()
+  },
+  requestSlice(resume) {
+    const target = getGlobalThis()
+    if (typeof target.requestIdleCallback === 'function') {
+      target.requestIdleCallback(() => resume())
+    } else if (typeof MessageChannel !== 'undefined') {
+      // a macro task that is not clamped like setTimeout
+      const channel = new MessageChannel()
+      channel.port1.onmessage = () => {
+        channel.port1.close()
+        resume()
+      }
+      channel.port2.postMessage(null)
+    } else {
+      setTimeout(resume)
+    }
+  }
+}
+
+let timeSlicing: Required<TimeSlicingOptions> | null = null
+
+// Opt-in: a flush that takes longer than the budget yields between component
+// updates, so a large update doesn't block the main thread. The DOM may be
+// partially updated between slices. `nextTick()` still resolves only after the
+// whole flush.
+export function enableTimeSlicing(options: TimeSlicingOptions = {}) {
+  timeSlicing = {
+    budget: options.budget != null ? options.budget : 5,
+    adapter: options.adapter || defaultAdapter
+  }
+}
+
+export function disableTimeSlicing() {
+  timeSlicing = null
 }
 
-export function queueJob(job: () => void) {
+// -----------------------------------------------------------------------------
+
+const getId = (job: SchedulerJob): number =>
+  job.id == null ? Infinity : job.id
+
+export function queueJob(job: SchedulerJob) {
   if (!queue.includes(job)) {
-    queue.push(job)
+    // keep the queue sorted by id. Jobs without an id run last, in the order
+    // they were queued.
+    const id = getId(job)
+    let i = queue.length
+    while (i > 0 && getId(queue[i - 1]) > id) {
+      i--
+    }
+    queue.splice(i, 0, job)
     queueFlush()
   }
 }
 
+// remove a queued job that must not run anymore, e.g. the update of a
+// component that has been unmounted in the meantime
+export function invalidateJob(job: SchedulerJob) {
+  const i = queue.indexOf(job)
+  if (i > -1) {
+    queue.splice(i, 1)
+  }
+}
+
+// callbacks that run before any component update of the same flush, e.g.
+// watchers with `flush: 'pre'`
+export function queuePreFlushCb(cb: Function) {
+  preFlushCbs.push(cb)
+  queueFlush()
+}
+
 export function queuePostFlushCb(cb: Function | Function[]) {
   if (!isArray(cb)) {
     postFlushCbs.push(cb)
@@ -31,12 +125,23 @@ export function queuePostFlushCb(cb: Function | Function[]) {
 function queueFlush() {
   if (!isFlushing && !isFlushPending) {
     isFlushPending = true
-    nextTick(flushJobs)
+    currentFlushPromise = p.then(() => flushJobs())
   }
 }
 
 const dedupe = (cbs: Function[]): Function[] => [...new Set(cbs)]
 
+export function flushPreFlushCbs() {
+  // pre-flush callbacks may queue more of them
+  while (preFlushCbs.length) {
+    const cbs = dedupe(preFlushCbs)
+    preFlushCbs.length = 0
+    for (let i = 0; i < cbs.length; i++) {
+      cbs[i]()
+    }
+  }
+}
+
 export function flushPostFlushCbs() {
   if (postFlushCbs.length) {
     const cbs = dedupe(postFlushCbs)
@@ -50,13 +155,17 @@ export function flushPostFlushCbs() {
 const RECURSION_LIMIT = 100
 type JobCountMap = Map<Function, number>
 
-function flushJobs(seenJobs?: JobCountMap) {
+function flushJobs(seenJobs?: JobCountMap): Promise<void> | void {
   isFlushPending = false
   isFlushing = true
   let job
   if (__DEV__) {
     seenJobs = seenJobs || new Map()
   }
+  const deadline = timeSlicing
+    ? timeSlicing.adapter.now() + timeSlicing.budget
+    : 0
+  flushPreFlushCbs()
   while ((job = queue.shift())) {
     if (__DEV__) {
       const seen = seenJobs!
@@ -76,12 +185,21 @@ function flushJobs(seenJobs?: JobCountMap) {
       }
     }
     callWithErrorHandling(job, null, ErrorCodes.SCHEDULER)
+    if (timeSlicing && queue.length && timeSlicing.adapter.now() >= deadline) {
+      // out of budget: resume in the next slice. The flush is still ongoing,
+      // so jobs queued in the meantime are picked up by the next slice.
+      const { adapter } = timeSlicing
+      return new Promise<void>(resolve => adapter.requestSlice(resolve)).then(
+        () => flushJobs(seenJobs)
+      )
+    }
   }
   flushPostFlushCbs()
   isFlushing = false
   // some postFlushCb queued jobs!
   // keep flushing until it drains.
-  if (queue.length || postFlushCbs.length) {
-    flushJobs(seenJobs)
+  if (queue.length || preFlushCbs.length || postFlushCbs.length) {
+    return flushJobs(seenJobs)
   }
+  currentFlushPromise = null
 }
@@ -0,0 +1,69 @@
+import { reactive } from '@vue/reactivity'
+import {
+  isArray,
+  isPlainObject,
+  isString,
+  SSR_STATE_TYPE_KEY,
+  SSR_STATE_ESCAPED_KEY_RE
+} from '@vue/shared'
+
+// Restore state serialized on the server with `serializeState()` from
+// @vue/server-renderer. Accepts either the JSON string or the already
+// evaluated value. If a reactive `target` is given (e.g. a store that is
+// already provided to the app), the restored properties are assigned to it so
+// that existing references stay valid. Otherwise a new reactive object is
+// returned. This should be called before the app is mounted so that client and
+// server start from identical data.
+export function hydrateState<T extends object = any>(
+  serialized: string | object,
+  target?: T
+): T {
+  const state = reviveValue(
+    isString(serialized) ? JSON.parse(serialized) : serialized
+  )
+  if (target) {
+    for (const key in state) {
+      ;(target as any)[key] = state[key]
+    }
+    return target
+  }
+  return reactive(state)
+}
+
+function reviveValue(value: any): any {
+  if (isArray(value)) {
+    for (let i = 0; i < value.length; i++) {
+      value[i] = reviveValue(value[i])
+    }
+  } else if (isPlainObject(value)) {
+    const type = (value as any)[SSR_STATE_TYPE_KEY]
+    if (type !== undefined) {
+      const inner = reviveValue((value as any).value)
+      switch (type) {
+        case 'Date':
+          return new Date(inner)
+        case 'Map':
+          return new Map(inner)
+        case 'Set':
+          return new Set(inner)
+      }
+    }
+    Object.keys(value).forEach(key => {
+      if (key === '__proto__') {
+        // would replace the prototype when assigned to a target. The payload
+        // comes from the page, so it is dropped.
+        delete (value as any)[key]
+        return
+      }
+      const revived = reviveValue((value as any)[key])
+      if (key !== SSR_STATE_TYPE_KEY && SSR_STATE_ESCAPED_KEY_RE.test(key)) {
+        // escaped by serializeState()
+        delete (value as any)[key]
+        ;(value as any)[key.slice(0, -1)] = revived
+      } else {
+        ;(value as any)[key] = revived
+      }
+    })
+  }
+  return value
+}
@@ -19,6 +19,7 @@ import { AppContext } from './apiApp'
 import { SuspenseBoundary, isSuspenseType } from './suspense'
 import { DirectiveBinding } from './directives'
 import { SuspenseImpl } from './suspense'
+import { TransitionHooks } from './baseTransition'
 
 export const Fragment = Symbol(__DEV__ ? 'Fragment' : undefined)
 export const Portal = Symbol(__DEV__ ? 'Portal' : undefined)
@@ -73,6 +74,7 @@ export interface VNode<HostNode = any, HostElement = any> {
   component: ComponentInternalInstance | null
   suspense: SuspenseBoundary<HostNode, HostElement> | null
   dirs: DirectiveBinding[] | null
+  transition: TransitionHooks<HostElement> | null
 
   // DOM
   el: HostNode | null
@@ -87,6 +89,10 @@ export interface VNode<HostNode = any, HostElement = any> {
 
   // application root node only
   appContext: AppContext | null
+
+  // custom element interception hook, called with the component instance
+  // once it is created
+  ce: ((instance: ComponentInternalInstance) => void) | null
 }
 
 // Since v-if and v-for are the two possible ways node structure can dynamically
@@ -210,6 +216,7 @@ export function createVNode(
     component: null,
     suspense: null,
     dirs: null,
+    transition: null,
     el: null,
     anchor: null,
     target: null,
@@ -217,7 +224,8 @@ export function createVNode(
     patchFlag,
     dynamicProps,
     dynamicChildren: null,
-    appContext: null
+    appContext: null,
+    ce: null
   }
 
   normalizeChildren(vnode, children)
@@ -263,6 +271,8 @@ export function cloneVNode<T, U>(
     dynamicChildren: vnode.dynamicChildren,
     appContext: vnode.appContext,
     dirs: vnode.dirs,
+    transition: vnode.transition,
+    ce: vnode.ce,
 
     // These should technically only be non-null on mounted VNodes. However,
     // they *should* be copied for kept-alive vnodes. So we just always copy
@@ -326,7 +336,7 @@ export function normalizeChildren(vnode: VNode, children: unknown) {
   vnode.shapeFlag |= type
 }
 
-function normalizeStyle(
+export function normalizeStyle(
   value: unknown
 ): Record<string, string | number> | void {
   if (isArray(value)) {
@@ -127,7 +127,10 @@ const classifyRE = /(?:^|[-_])(\w)/g
 const classify = (str: string): string =>
   str.replace(classifyRE, c => c.toUpperCase()).replace(/[-_]/g, '')
 
-function formatComponentName(vnode: ComponentVNode, file?: string): string {
+export function formatComponentName(
+  vnode: ComponentVNode,
+  file?: string
+): string {
   const Component = vnode.type
   let name = isFunction(Component) ? Component.displayName : Component.name
   if (!name && file) {
@@ -0,0 +1,169 @@
+import {
+  h,
+  ref,
+  render,
+  nextTick,
+  TransitionGroup,
+  TransitionGroupProps
+} from '@vue/runtime-dom'
+import { mockWarn } from '@vue/runtime-test'
+
+const timeout = () => new Promise(r => setTimeout(r))
+
+const transitionEnd = (el: Element, propertyName = 'opacity') => {
+  const e = new Event('transitionend')
+  Object.defineProperty(e, 'propertyName', { value: propertyName })
+  el.dispatchEvent(e)
+}
+
+describe('TransitionGroup', () => {
+  mockWarn()
+
+  let root: Element
+  let transitionProperty: string
+  const spies: jest.SpyInstance[] = []
+
+  beforeEach(() => {
+    root = document.createElement('div')
+    transitionProperty = 'all'
+    ;(window as any).requestAnimationFrame = (cb: () => void) => setTimeout(cb)
+    // JSDOM does not do layout: use the index of the element among its
+    // siblings as its position
+    spies.push(
+      jest
+        .spyOn(Element.prototype, 'getBoundingClientRect')
+        .mockImplementation(function(this: Element) {
+          const siblings = this.parentNode
+            ? Array.from(this.parentNode.children)
+            : []
+          return { top: siblings.indexOf(this) * 10, left: 0 } as any
+        }),
+      jest.spyOn(window, 'getComputedStyle').mockImplementation(
+        () =>
+          ({
+            transitionProperty,
+            transitionDelay: '0s',
+            transitionDuration: '0.1s',
+            animationDelay: '',
+            animationDuration: ''
+          } as any)
+      )
+    )
+  })
+
+  afterEach(() => {
+    spies.forEach(spy => spy.mockRestore())
+    spies.length = 0
+    delete (window as any).requestAnimationFrame
+  })
+
+  function mount(
+    props: TransitionGroupProps | null,
+    items = ref(['a', 'b', 'c'])
+  ) {
+    const App = {
+      render: () =>
+        h(TransitionGroup, props, {
+          default: () => items.value.map(item => h('li', { key: item }, item))
+        })
+    }
+    render(h(App), root)
+    return items
+  }
+
+  const item = (text: string) =>
+    Array.from(root.querySelectorAll('li')).find(el => el.textContent === text)!
+
+  test('renders children with the given tag', () => {
+    mount({ tag: 'ul' })
+    expect(root.innerHTML).toBe(`<ul><li>a</li><li>b</li><li>c</li></ul>`)
+  })
+
+  test('renders a fragment without tag', () => {
+    mount(null)
+    expect(root.innerHTML).toBe(`<!----><li>a</li><li>b</li><li>c</li><!---->`)
+  })
+
+  test('enter and leave', async () => {
+    const items = mount({ tag: 'ul' })
+    items.value = ['a', 'c', 'd']
+    await nextTick()
+    expect(root.innerHTML).toBe(
+      `<ul><li>a</li>` +
+        `<li class="v-leave-active v-leave-from">b</li>` +
+        `<li>c</li>` +
+        `<li class="v-enter-active v-enter-from">d</li></ul>`
+    )
+    await timeout()
+    await timeout()
+    expect(item('b').className).toBe(`v-leave-active v-leave-to`)
+    expect(item('d').className).toBe(`v-enter-active v-enter-to`)
+
+    transitionEnd(item('b'))
+    transitionEnd(item('d'))
+    expect(root.innerHTML).toBe(
+      `<ul><li>a</li><li>c</li><li class="">d</li></ul>`
+    )
+  })
+
+  test('move', async () => {
+    const items = mount({ tag: 'ul' })
+    items.value = ['c', 'b', 'a']
+    await nextTick()
+    expect(root.innerHTML).toBe(
+      `<ul><li style="" class="v-move">c</li>` +
+        `<li>b</li>` +
+        `<li style="" class="v-move">a</li></ul>`
+    )
+
+    // transitions of other properties are ignored
+    transitionEnd(item('a'))
+    expect(item('a').className).toBe(`v-move`)
+    transitionEnd(item('a'), 'transform')
+    transitionEnd(item('c'), 'transform')
+    expect(root.innerHTML).toBe(
+      `<ul><li style="" class="">c</li><li>b</li><li style="" class="">a</li></ul>`
+    )
+  })
+
+  test('pending move is finished by the next update', async () => {
+    const items = mount({ tag: 'ul' })
+    items.value = ['c', 'b', 'a']
+    await nextTick()
+    items.value = ['c', 'a', 'b']
+    await nextTick()
+    // `c` is not moving anymore
+    expect(item('c').className).toBe(``)
+    expect(item('a').className).toBe(`v-move`)
+    expect(item('b').className).toBe(`v-move`)
+  })
+
+  test('name and moveClass', async () => {
+    const items = mount({ tag: 'ul', name: 'list' })
+    items.value = ['b', 'a', 'c']
+    await nextTick()
+    expect(item('a').className).toBe(`list-move`)
+
+    render(null, root)
+    const others = mount({ tag: 'ul', name: 'list', moveClass: 'moving' })
+    others.value = ['b', 'a', 'c']
+    await nextTick()
+    expect(item('a').className).toBe(`moving`)
+  })
+
+  test('no move transition without CSS transform transitions', async () => {
+    transitionProperty = 'opacity'
+    const items = mount({ tag: 'ul' })
+    items.value = ['c', 'b', 'a']
+    await nextTick()
+    expect(root.innerHTML).toBe(`<ul><li>c</li><li>b</li><li>a</li></ul>`)
+  })
+
+  test('warn unkeyed children', () => {
+    render(
+      h(TransitionGroup, null, { default: () => [h('div'), h('div')] }),
+      root
+    )
+    expect(`<TransitionGroup> children must be keyed.`).toHaveBeenWarned()
+  })
+})
@@ -0,0 +1,324 @@
+import {
+  h,
+  ref,
+  render,
+  nextTick,
+  Transition,
+  TransitionProps,
+  Component
+} from '@vue/runtime-dom'
+import { mockWarn } from '@vue/runtime-test'
+
+const timeout = (n = 0) => new Promise(r => setTimeout(r, n))
+
+// enter / leave hooks wait for two animation frames before applying the
+// `*-to` classes
+const nextFrame = async () => {
+  await timeout()
+  await timeout()
+}
+
+describe('Transition', () => {
+  mockWarn()
+
+  let root: Element
+  let getComputedStyle: jest.SpyInstance
+
+  beforeEach(() => {
+    root = document.createElement('div')
+    ;(window as any).requestAnimationFrame = (cb: () => void) => setTimeout(cb)
+    // JSDOM does not compute transition durations
+    getComputedStyle = jest
+      .spyOn(window, 'getComputedStyle')
+      .mockImplementation(
+        () =>
+          ({
+            transitionDelay: '0s',
+            transitionDuration: '0.1s',
+            animationDelay: '',
+            animationDuration: ''
+          } as any)
+      )
+  })
+
+  afterEach(() => {
+    getComputedStyle.mockRestore()
+    delete (window as any).requestAnimationFrame
+  })
+
+  function mount(
+    props: TransitionProps,
+    child: (toggle: boolean) => any,
+    toggle = ref(true)
+  ) {
+    const App = {
+      render: () =>
+        h(Transition, props, { default: () => [child(toggle.value)] })
+    }
+    render(h(App), root)
+    return toggle
+  }
+
+  const div = (toggle: boolean) => (toggle ? h('div', { class: 'test' }) : null)
+
+  test('enter / leave classes with v-if', async () => {
+    const toggle = mount({}, div)
+    expect(root.innerHTML).toBe(`<div class="test"></div>`)
+
+    // leave
+    toggle.value = false
+    await nextTick()
+    const el = root.firstChild as Element
+    expect(el.className).toBe(`test v-leave-active v-leave-from`)
+    await nextFrame()
+    expect(el.className).toBe(`test v-leave-active v-leave-to`)
+    // still in the DOM until the transition ends
+    expect(root.firstChild).toBe(el)
+    el.dispatchEvent(new Event('transitionend'))
+    expect(root.innerHTML).toBe(`<!---->`)
+    expect(el.className).toBe(`test`)
+
+    // enter
+    toggle.value = true
+    await nextTick()
+    const newEl = root.firstChild as Element
+    expect(newEl.className).toBe(`test v-enter-active v-enter-from`)
+    await nextFrame()
+    expect(newEl.className).toBe(`test v-enter-active v-enter-to`)
+    newEl.dispatchEvent(new Event('transitionend'))
+    expect(newEl.className).toBe(`test`)
+  })
+
+  test('animationend', async () => {
+    getComputedStyle.mockImplementation(
+      () =>
+        ({
+          transitionDelay: '',
+          transitionDuration: '',
+          animationDelay: '0s',
+          animationDuration: '0.1s'
+        } as any)
+    )
+    const toggle = mount({ name: 'bounce' }, div)
+    toggle.value = false
+    await nextTick()
+    await nextFrame()
+    const el = root.firstChild as Element
+    expect(el.className).toBe(`test bounce-leave-active bounce-leave-to`)
+    // transitionend is ignored for animations
+    el.dispatchEvent(new Event('transitionend'))
+    expect(root.firstChild).toBe(el)
+    el.dispatchEvent(new Event('animationend'))
+    expect(root.innerHTML).toBe(`<!---->`)
+  })
+
+  test('resolves without CSS transitions', async () => {
+    getComputedStyle.mockRestore()
+    const toggle = mount({}, div)
+    toggle.value = false
+    await nextTick()
+    expect(root.innerHTML).toBe(
+      `<div class="test v-leave-active v-leave-from"></div><!---->`
+    )
+    await nextFrame()
+    expect(root.innerHTML).toBe(`<!---->`)
+  })
+
+  test('name, explicit classes and duration', async () => {
+    getComputedStyle.mockRestore()
+    const toggle = mount(
+      {
+        name: 'fade',
+        enterActiveClass: 'a b',
+        leaveToClass: 'c',
+        duration: { enter: 10, leave: 20 }
+      },
+      div
+    )
+    toggle.value = false
+    await nextTick()
+    const el = root.firstChild as Element
+    expect(el.className).toBe(`test fade-leave-active fade-leave-from`)
+    await nextFrame()
+    expect(el.className).toBe(`test fade-leave-active c`)
+    await timeout(25)
+    expect(root.innerHTML).toBe(`<!---->`)
+
+    toggle.value = true
+    await nextTick()
+    const newEl = root.firstChild as Element
+    expect(newEl.className).toBe(`test a b fade-enter-from`)
+    await nextFrame()
+    expect(newEl.className).toBe(`test a b fade-enter-to`)
+    await timeout(15)
+    expect(newEl.className).toBe(`test`)
+  })
+
+  test('JavaScript hooks', async () => {
+    const calls: string[] = []
+    let doneEnter: () => void
+    let doneLeave: () => void
+    const hook = (name: string) => (el: Element) => {
+      calls.push(`${name}: ${el.className}`)
+    }
+    const toggle = mount(
+      {
+        css: false,
+        onBeforeEnter: hook('beforeEnter'),
+        onEnter: (el, done) => {
+          hook('enter')(el)
+          doneEnter = done
+        },
+        onAfterEnter: hook('afterEnter'),
+        onBeforeLeave: hook('beforeLeave'),
+        onLeave: (el, done) => {
+          hook('leave')(el)
+          doneLeave = done
+        },
+        onAfterLeave: hook('afterLeave')
+      },
+      div
+    )
+    expect(calls).toEqual([])
+
+    toggle.value = false
+    await nextTick()
+    expect(calls).toEqual([`beforeLeave: test`, `leave: test`])
+    expect(root.innerHTML).toBe(`<div class="test"></div><!---->`)
+    doneLeave!()
+    expect(calls).toEqual([
+      `beforeLeave: test`,
+      `leave: test`,
+      `afterLeave: test`
+    ])
+    expect(root.innerHTML).toBe(`<!---->`)
+
+    calls.length = 0
+    toggle.value = true
+    await nextTick()
+    expect(calls).toEqual([`beforeEnter: test`, `enter: test`])
+    doneEnter!()
+    // calling done more than once has no effect
+    doneEnter!()
+    expect(calls).toEqual([
+      `beforeEnter: test`,
+      `enter: test`,
+      `afterEnter: test`
+    ])
+  })
+
+  test('JavaScript hooks combined with CSS classes', async () => {
+    const onEnter = jest.fn()
+    const onAfterEnter = jest.fn()
+    const onLeave = jest.fn((el: Element, done: () => void) => {
+      expect(el.className).toBe(`test v-leave-active v-leave-from`)
+      setTimeout(done, 10)
+    })
+    const toggle = mount({ onEnter, onAfterEnter, onLeave }, div)
+    toggle.value = false
+    await nextTick()
+    expect(onLeave).toHaveBeenCalled()
+    const el = root.firstChild as Element
+    await nextFrame()
+    // the leave hook accepts `done`, so transitionend is not awaited
+    el.dispatchEvent(new Event('transitionend'))
+    expect(root.firstChild).toBe(el)
+    await timeout(10)
+    expect(root.innerHTML).toBe(`<!---->`)
+
+    // onEnter does not accept `done`, classes are applied as usual
+    toggle.value = true
+    await nextTick()
+    expect(onEnter).toHaveBeenCalledTimes(1)
+    await nextFrame()
+    expect(onAfterEnter).not.toHaveBeenCalled()
+    root.firstChild!.dispatchEvent(new Event('transitionend'))
+    expect(onAfterEnter).toHaveBeenCalledTimes(1)
+  })
+
+  test('appear', async () => {
+    const onAppear = jest.fn()
+    const onEnter = jest.fn()
+    // no appear transition by default
+    mount({ onEnter }, div)
+    expect((root.firstChild as Element).className).toBe(`test`)
+    expect(onEnter).not.toHaveBeenCalled()
+
+    render(null, root)
+    mount({ appear: true, appearActiveClass: 'appear', onAppear }, div)
+    const el = root.firstChild as Element
+    expect(el.className).toBe(`test appear v-enter-from`)
+    expect(onAppear).toHaveBeenCalledTimes(1)
+    await nextFrame()
+    expect(el.className).toBe(`test appear v-enter-to`)
+    el.dispatchEvent(new Event('transitionend'))
+    expect(el.className).toBe(`test`)
+  })
+
+  test('dynamic components', async () => {
+    const One: Component = { render: () => h('div', 'one') }
+    const Two: Component = { render: () => h('div', 'two') }
+    const toggle = mount({}, toggle => h(toggle ? One : Two))
+    toggle.value = false
+    await nextTick()
+    // both are in the DOM while transitioning
+    expect(root.innerHTML).toBe(
+      `<div class="v-leave-active v-leave-from">one</div>` +
+        `<div class="v-enter-active v-enter-from">two</div>`
+    )
+    await nextFrame()
+    const [leaveEl, enterEl] = Array.from(root.children)
+    leaveEl.dispatchEvent(new Event('transitionend'))
+    expect(root.innerHTML).toBe(
+      `<div class="v-enter-active v-enter-to">two</div>`
+    )
+    enterEl.dispatchEvent(new Event('transitionend'))
+    expect(root.innerHTML).toBe(`<div class="">two</div>`)
+  })
+
+  test('cancel enter when leaving', async () => {
+    const onEnterCancelled = jest.fn()
+    const onAfterEnter = jest.fn()
+    const toggle = mount({ onEnterCancelled, onAfterEnter }, div, ref(false))
+    toggle.value = true
+    await nextTick()
+    const el = root.firstChild as Element
+    toggle.value = false
+    await nextTick()
+    expect(onEnterCancelled).toHaveBeenCalledTimes(1)
+    expect(el.className).toBe(`test v-leave-active v-leave-from`)
+    await nextFrame()
+    expect(el.className).toBe(`test v-leave-active v-leave-to`)
+    el.dispatchEvent(new Event('transitionend'))
+    expect(root.innerHTML).toBe(`<!---->`)
+    expect(onAfterEnter).not.toHaveBeenCalled()
+  })
+
+  test('leaving element with the same key is removed when entering', async () => {
+    const onAfterLeave = jest.fn()
+    const toggle = mount({ onAfterLeave }, div)
+    toggle.value = false
+    await nextTick()
+    toggle.value = true
+    await nextTick()
+    expect(onAfterLeave).toHaveBeenCalledTimes(1)
+    expect(root.innerHTML).toBe(
+      `<div class="test v-enter-active v-enter-from"></div>`
+    )
+  })
+
+  test('unmounting the transition removes the child right away', async () => {
+    const onLeave = jest.fn()
+    mount({ onLeave }, div)
+    render(null, root)
+    expect(root.innerHTML).toBe(``)
+    expect(onLeave).not.toHaveBeenCalled()
+  })
+
+  test('warn on multiple children', () => {
+    render(h(Transition, null, { default: () => [h('div'), h('div')] }), root)
+    expect(
+      '<transition> can only be used on a single element or component.'
+    ).toHaveBeenWarned()
+  })
+})
@@ -0,0 +1,252 @@
+import {
+  setInnerHTML,
+  insert,
+  remove,
+  move,
+  setAttribute
+} from './customElementShim'
+import {
+  defineCustomElement,
+  h,
+  nextTick,
+  ref,
+  VueElement,
+  SetupContext
+} from '@vue/runtime-dom'
+import { mockWarn } from '@vue/runtime-test'
+
+describe('defineCustomElement', () => {
+  mockWarn()
+
+  const container = document.createElement('div')
+  document.body.appendChild(container)
+
+  beforeEach(() => {
+    setInnerHTML(container, '')
+  })
+
+  describe('mounting / unmount', () => {
+    const E = defineCustomElement({
+      props: ['msg'],
+      render() {
+        return h('div', `hello ${this.msg}`)
+      }
+    })
+    customElements.define('my-element', E)
+
+    test('should work', () => {
+      setInnerHTML(container, `<my-element></my-element>`)
+      const e = container.childNodes[0] as VueElement
+      expect(e).toBeInstanceOf(E)
+      expect(e._instance).toBeTruthy()
+      expect(e.shadowRoot!.innerHTML).toBe(`<div>hello undefined</div>`)
+    })
+
+    test('should work w/ manual instantiation', () => {
+      const e = new E({ msg: 'inline' })
+      // should lazy init
+      expect(e._instance).toBe(null)
+      // should initialize on connect
+      insert(container, e)
+      expect(e._instance).toBeTruthy()
+      expect(e.shadowRoot!.innerHTML).toBe(`<div>hello inline</div>`)
+    })
+
+    test('should unmount on remove', async () => {
+      setInnerHTML(container, `<my-element></my-element>`)
+      const e = container.childNodes[0] as VueElement
+      remove(e)
+      await nextTick()
+      expect(e._instance).toBe(null)
+      expect(e.shadowRoot!.innerHTML).toBe('')
+    })
+
+    test('should not unmount on move', async () => {
+      setInnerHTML(container, `<div><my-element></my-element></div>`)
+      const e = container.childNodes[0].childNodes[0] as VueElement
+      const i = e._instance
+      // moving from one parent to another - this will trigger both disconnect
+      // and connected callbacks synchronously
+      move(container, e)
+      await nextTick()
+      // should be the same instance
+      expect(e._instance).toBe(i)
+      expect(e.shadowRoot!.innerHTML).toBe('<div>hello undefined</div>')
+    })
+  })
+
+  describe('props', () => {
+    const E = defineCustomElement({
+      props: {
+        foo: String,
+        bar: Number,
+        fooBar: String
+      },
+      render() {
+        return [
+          h('div', this.foo),
+          h('div', `${typeof this.bar} ${this.bar}`),
+          h('div', this.fooBar)
+        ]
+      }
+    })
+    customElements.define('my-el-props', E)
+
+    test('attrs -> props', async () => {
+      setInnerHTML(
+        container,
+        `<my-el-props foo="hello" bar="1" foo-bar="baz"></my-el-props>`
+      )
+      const e = container.childNodes[0] as VueElement
+      expect(e.shadowRoot!.innerHTML).toBe(
+        `<!----><div>hello</div><div>number 1</div><div>baz</div><!---->`
+      )
+
+      setAttribute(e, 'foo', 'changed')
+      setAttribute(e, 'bar', '2')
+      expect(e.shadowRoot!.innerHTML).toBe(
+        `<!----><div>changed</div><div>number 2</div><div>baz</div><!---->`
+      )
+    })
+
+    test('props -> element properties', async () => {
+      setInnerHTML(container, `<my-el-props></my-el-props>`)
+      const e = container.childNodes[0] as any
+      e.foo = 'one'
+      e.fooBar = 'two'
+      expect(e.foo).toBe('one')
+      expect(e.shadowRoot.innerHTML).toBe(
+        `<!----><div>one</div><div>undefined undefined</div><div>two</div><!---->`
+      )
+    })
+  })
+
+  describe('emits', () => {
+    const E = defineCustomElement({
+      setup(_: any, { emit }: SetupContext) {
+        emit('created')
+        return () =>
+          h('div', {
+            onClick: () => emit('myEvent', 1)
+          })
+      }
+    })
+    customElements.define('my-el-emits', E)
+
+    test('emit on connect', () => {
+      const e = new E()
+      const spy = jest.fn()
+      e.addEventListener('created', spy)
+      insert(container, e)
+      expect(spy).toHaveBeenCalled()
+    })
+
+    test('emit as CustomEvent with args as detail', () => {
+      setInnerHTML(container, `<my-el-emits></my-el-emits>`)
+      const e = container.childNodes[0] as VueElement
+      const spy = jest.fn()
+      e.addEventListener('myEvent', spy)
+      const hyphenatedSpy = jest.fn()
+      e.addEventListener('my-event', hyphenatedSpy)
+      e.shadowRoot!.childNodes[0].dispatchEvent(new CustomEvent('click'))
+      expect(spy).toHaveBeenCalledTimes(1)
+      expect(spy.mock.calls[0][0]).toMatchObject({ detail: [1] })
+      expect(hyphenatedSpy).toHaveBeenCalledTimes(1)
+    })
+
+    test('call listeners passed as props', () => {
+      const spy = jest.fn()
+      const e = new E({ onCreated: spy })
+      insert(container, e)
+      expect(spy).toHaveBeenCalledTimes(1)
+    })
+
+    test('validate emits', () => {
+      const E = defineCustomElement({
+        emits: ['foo'],
+        setup(_: any, { emit }: SetupContext) {
+          emit('bar')
+          return () => h('div')
+        }
+      })
+      customElements.define('my-el-emits-validated', E)
+      insert(container, new E())
+      expect(
+        `Component emitted event "bar" but it is neither declared`
+      ).toHaveBeenWarned()
+    })
+  })
+
+  describe('slots', () => {
+    const E = defineCustomElement({
+      render() {
+        return [h('div', 'hello'), this.$slots.default!(), this.$slots.named!()]
+      }
+    })
+    customElements.define('my-el-slots', E)
+
+    test('render slots as native <slot> elements', () => {
+      setInnerHTML(
+        container,
+        `<my-el-slots><span>hi</span><p slot="named">n</p></my-el-slots>`
+      )
+      const e = container.childNodes[0] as VueElement
+      expect(e.shadowRoot!.innerHTML).toBe(
+        `<!----><div>hello</div>` +
+          `<!----><slot></slot><!---->` +
+          `<!----><slot name="named"></slot><!----><!---->`
+      )
+    })
+  })
+
+  describe('without shadow root', () => {
+    const count = ref(0)
+    const E = defineCustomElement(
+      {
+        render() {
+          return [h('div', count.value), this.$slots.default!()]
+        }
+      },
+      { shadowRoot: false }
+    )
+    customElements.define('my-el-no-shadow', E)
+
+    test('renders into the element and projects light DOM into slots', async () => {
+      setInnerHTML(
+        container,
+        `<my-el-no-shadow><span>hi</span></my-el-no-shadow>`
+      )
+      const e = container.childNodes[0] as VueElement
+      expect(e.shadowRoot).toBe(null)
+      expect(e.innerHTML).toBe(
+        `<!----><div>0</div><!----><slot><span>hi</span></slot><!----><!---->`
+      )
+
+      // projected content is kept on update
+      count.value++
+      await nextTick()
+      expect(e.innerHTML).toBe(
+        `<!----><div>1</div><!----><slot><span>hi</span></slot><!----><!---->`
+      )
+    })
+
+    test('projects the light DOM again when reconnected', async () => {
+      setInnerHTML(
+        container,
+        `<my-el-no-shadow><span>hi</span></my-el-no-shadow>`
+      )
+      const e = container.childNodes[0] as VueElement
+      remove(e)
+      await nextTick()
+      expect(e._instance).toBe(null)
+      expect(e.innerHTML).toBe('')
+
+      insert(container, e)
+      expect(e.innerHTML).toBe(
+        `<!----><div>${
+          count.value
+        }</div><!----><slot><span>hi</span></slot><!----><!---->`
+      )
+    })
+  })
+})
@@ -0,0 +1,102 @@
+// jsdom 11 implements neither custom elements nor shadow DOM. This is a
+// minimal stand-in so that VueElement can be constructed, upgraded from parsed
+// markup and rendered. It has to be imported before @vue/runtime-dom, which
+// extends the global HTMLElement when it is evaluated.
+//
+// Unlike a real registry, the lifecycle callbacks are not invoked by the DOM:
+// use the helpers below to insert / remove elements and to set attributes.
+
+interface CustomElement extends HTMLElement {
+  connectedCallback?(): void
+  disconnectedCallback?(): void
+  attributeChangedCallback?(
+    name: string,
+    old: string | null,
+    value: string | null
+  ): void
+}
+
+const registry = new Map<string, Function>()
+const names = new Map<Function, string>()
+// the parsed element that is being upgraded by the current constructor call
+let upgrading: HTMLElement | null = null
+
+const NativeHTMLElement = window.HTMLElement
+
+function HTMLElementShim(this: unknown) {
+  const el = upgrading || document.createElement(names.get(new.target)!)
+  upgrading = null
+  Object.setPrototypeOf(el, new.target.prototype)
+  return el
+}
+HTMLElementShim.prototype = NativeHTMLElement.prototype
+;(window as any).HTMLElement = HTMLElementShim
+
+if (!(window as any).customElements) {
+  ;(window as any).customElements = {
+    define(name: string, ctor: Function) {
+      registry.set(name, ctor)
+      names.set(ctor, name)
+    },
+    get(name: string) {
+      return registry.get(name)
+    }
+  }
+}
+
+// the shadow root is emulated with a detached element, which is enough to
+// render into it and to inspect its innerHTML
+Object.defineProperty(Element.prototype, 'shadowRoot', {
+  configurable: true,
+  get(this: any) {
+    return this.__shadowRoot || null
+  }
+})
+;(Element.prototype as any).attachShadow = function(this: any) {
+  return (this.__shadowRoot = document.createElement('shadow-root'))
+}
+
+function upgrade(root: Element): CustomElement[] {
+  const upgraded: CustomElement[] = []
+  Array.from(root.querySelectorAll('*')).forEach(el => {
+    const ctor = registry.get(el.localName) as any
+    if (ctor && !(el instanceof ctor)) {
+      upgrading = el as HTMLElement
+      upgraded.push(new ctor())
+    }
+  })
+  return upgraded
+}
+
+// set the innerHTML of a connected container, upgrading and connecting the
+// custom elements it contains
+export function setInnerHTML(container: Element, html: string) {
+  container.innerHTML = html
+  upgrade(container).forEach(el => el.connectedCallback!())
+}
+
+export function insert(parent: Element, el: CustomElement) {
+  parent.appendChild(el)
+  el.connectedCallback!()
+}
+
+export function remove(el: CustomElement) {
+  el.parentNode!.removeChild(el)
+  el.disconnectedCallback!()
+}
+
+// moving an element disconnects and connects it again synchronously
+export function move(parent: Element, el: CustomElement) {
+  el.disconnectedCallback!()
+  parent.appendChild(el)
+  el.connectedCallback!()
+}
+
+export function setAttribute(el: CustomElement, name: string, value: string) {
+  const old = el.getAttribute(name)
+  el.setAttribute(name, value)
+  const observed: string[] = (el.constructor as any).observedAttributes || []
+  if (observed.includes(name)) {
+    el.attributeChangedCallback!(name, old, value)
+  }
+}
@@ -0,0 +1,153 @@
+import {
+  h,
+  ref,
+  render,
+  nextTick,
+  vShow,
+  withDirectives,
+  Transition,
+  TransitionProps
+} from '@vue/runtime-dom'
+
+const timeout = () => new Promise(r => setTimeout(r))
+
+describe('vShow', () => {
+  let root: HTMLElement
+
+  beforeEach(() => {
+    root = document.createElement('div')
+  })
+
+  function mount(toggle = ref(true), props: any = null) {
+    render(
+      h({
+        render: () => withDirectives(h('div', props), [[vShow, toggle.value]])
+      }),
+      root
+    )
+    return root.firstChild as HTMLElement
+  }
+
+  test('should toggle display', async () => {
+    const toggle = ref(true)
+    const el = mount(toggle)
+    expect(el.style.display).toBe('')
+
+    toggle.value = false
+    await nextTick()
+    expect(el.style.display).toBe('none')
+
+    toggle.value = true
+    await nextTick()
+    expect(el.style.display).toBe('')
+  })
+
+  test('should hide on initial render', () => {
+    const el = mount(ref(false))
+    expect(el.style.display).toBe('none')
+  })
+
+  test('should preserve the original display value', async () => {
+    const toggle = ref(false)
+    const el = mount(toggle, { style: { display: 'flex' } })
+    expect(el.style.display).toBe('none')
+
+    toggle.value = true
+    await nextTick()
+    expect(el.style.display).toBe('flex')
+  })
+
+  test('should not reset a display:none style when shown', async () => {
+    const toggle = ref(true)
+    const el = mount(toggle, { style: { display: 'none' } })
+    toggle.value = false
+    await nextTick()
+    toggle.value = true
+    await nextTick()
+    expect(el.style.display).toBe('')
+  })
+
+  describe('with Transition', () => {
+    let getComputedStyle: jest.SpyInstance
+
+    beforeEach(() => {
+      ;(window as any).requestAnimationFrame = (cb: () => void) =>
+        setTimeout(cb)
+      getComputedStyle = jest
+        .spyOn(window, 'getComputedStyle')
+        .mockImplementation(
+          () =>
+            ({
+              transitionDelay: '0s',
+              transitionDuration: '0.1s',
+              animationDelay: '',
+              animationDuration: ''
+            } as any)
+        )
+    })
+
+    afterEach(() => {
+      getComputedStyle.mockRestore()
+      delete (window as any).requestAnimationFrame
+    })
+
+    function mountWithTransition(toggle: any, props: TransitionProps = {}) {
+      const App = {
+        render: () =>
+          h(Transition, props, {
+            default: () => [withDirectives(h('div'), [[vShow, toggle.value]])]
+          })
+      }
+      render(h(App), root)
+      return root.firstChild as HTMLElement
+    }
+
+    test('leave / enter', async () => {
+      const toggle = ref(true)
+      const el = mountWithTransition(toggle)
+
+      toggle.value = false
+      await nextTick()
+      // stays visible until the leave transition ends
+      expect(el.style.display).toBe('')
+      expect(el.className).toBe(`v-leave-active v-leave-from`)
+      await timeout()
+      await timeout()
+      el.dispatchEvent(new Event('transitionend'))
+      expect(el.style.display).toBe('none')
+      expect(el.className).toBe(``)
+
+      toggle.value = true
+      await nextTick()
+      expect(el.style.display).toBe('')
+      expect(el.className).toBe(`v-enter-active v-enter-from`)
+      await timeout()
+      await timeout()
+      el.dispatchEvent(new Event('transitionend'))
+      expect(el.className).toBe(``)
+    })
+
+    test('showing again cancels the leave transition', async () => {
+      const toggle = ref(true)
+      const onLeaveCancelled = jest.fn()
+      const el = mountWithTransition(toggle, { onLeaveCancelled })
+
+      toggle.value = false
+      await nextTick()
+      toggle.value = true
+      await nextTick()
+      expect(onLeaveCancelled).toHaveBeenCalledTimes(1)
+      expect(el.style.display).toBe('')
+      expect(el.className).toBe(`v-enter-active v-enter-from`)
+    })
+
+    test('persisted appear', () => {
+      const el = mountWithTransition(ref(true), {
+        persisted: true,
+        appear: true
+      })
+      expect(el.className).toBe(`v-enter-active v-enter-from`)
+      expect(el.style.display).toBe('')
+    })
+  })
+})
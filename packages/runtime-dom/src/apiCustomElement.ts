@@ -0,0 +1,246 @@
+import {
+  ComponentOptions,
+  ComponentInternalInstance,
+  ComponentPropsOptions,
+  Prop,
+  PropType,
+  RawSlots,
+  VNode,
+  createVNode,
+  nextTick,
+  warn
+} from '@vue/runtime-core'
+import {
+  camelize,
+  hyphenate,
+  isArray,
+  isObject,
+  hasOwn,
+  extend
+} from '@vue/shared'
+import { render } from './renderer'
+
+export interface CustomElementOptions {
+  // mount the component into an open shadow root (default). When false, the
+  // component is rendered into the element itself and light DOM content is
+  // moved into the rendered <slot> elements.
+  shadowRoot?: boolean
+}
+
+export interface VueElementConstructor {
+  new (initialProps?: Record<string, any>): VueElement
+}
+
+// SSR / non-DOM environments: the class can still be defined
+const BaseClass = (typeof HTMLElement !== 'undefined'
+  ? HTMLElement
+  : class {}) as typeof HTMLElement
+
+export function defineCustomElement(
+  options: ComponentOptions,
+  extraOptions: CustomElementOptions = {}
+): VueElementConstructor {
+  const { props: rawKeys, numberProps } = resolvePropKeys(options.props)
+  const attrKeys = rawKeys.map(hyphenate)
+
+  class VueCustomElement extends VueElement {
+    static get observedAttributes() {
+      return attrKeys
+    }
+    constructor(initialProps?: Record<string, any>) {
+      super(options, extraOptions, numberProps, initialProps)
+      // declared props are always passed, so that absent ones are defined on
+      // the instance as undefined
+      rawKeys.forEach(key => {
+        if (!hasOwn(this._props, key)) {
+          this._props[key] = undefined
+        }
+      })
+    }
+  }
+
+  // expose declared props as element properties
+  rawKeys.forEach(key => {
+    Object.defineProperty(VueCustomElement.prototype, key, {
+      get(this: VueElement) {
+        return this._props[key]
+      },
+      set(this: VueElement, val) {
+        this._setProp(key, val)
+      }
+    })
+  })
+
+  return VueCustomElement
+}
+
+export class VueElement extends BaseClass {
+  _props: Record<string, any>
+  _instance: ComponentInternalInstance | null = null
+  private _connected = false
+  private _lightDOM: Node[] | null = null
+
+  constructor(
+    private _def: ComponentOptions,
+    options: CustomElementOptions,
+    private _numberProps: Record<string, true>,
+    initialProps: Record<string, any> = {}
+  ) {
+    super()
+    this._props = extend({}, initialProps)
+    if (options.shadowRoot !== false) {
+      this.attachShadow({ mode: 'open' })
+    }
+  }
+
+  attributeChangedCallback(name: string, old: string | null, val: string) {
+    this._setAttr(name, val)
+  }
+
+  connectedCallback() {
+    this._connected = true
+    if (!this._instance) {
+      // attributes present before the element was upgraded
+      for (let i = 0; i < this.attributes.length; i++) {
+        this._setAttr(this.attributes[i].name, this.attributes[i].value, false)
+      }
+      // the light DOM is captured once: after a disconnect it only lives in
+      // the unmounted slots, and is projected again on reconnect
+      if (!this.shadowRoot && !this._lightDOM) {
+        this._lightDOM = Array.from(this.childNodes)
+        this._lightDOM.forEach(node => this.removeChild(node))
+      }
+      this._update()
+    }
+  }
+
+  disconnectedCallback() {
+    this._connected = false
+    // the element may just be moved to a different position in the DOM
+    nextTick(() => {
+      if (!this._connected) {
+        render(null, this._root as Element)
+        this._instance = null
+      }
+    })
+  }
+
+  _setProp(key: string, val: any, shouldUpdate = true) {
+    if (val !== this._props[key]) {
+      this._props[key] = val
+      if (shouldUpdate && this._instance) {
+        this._update()
+      }
+    }
+  }
+
+  private _setAttr(name: string, val: string | null, shouldUpdate = true) {
+    const key = camelize(name)
+    if (!(key in this.constructor.prototype)) {
+      return
+    }
+    let value: any = val
+    if (value != null && this._numberProps[key]) {
+      value = Number(value)
+    }
+    this._setProp(key, value, shouldUpdate)
+  }
+
+  // the renderer only relies on the Node APIs of its container, which a
+  // shadow root provides as well, hence the `as Element` casts when it is
+  // passed to render()
+  private get _root(): ShadowRoot | HTMLElement {
+    return this.shadowRoot || this
+  }
+
+  private _update() {
+    render(this._createVNode(), this._root as Element)
+    if (this._lightDOM) {
+      projectLightDOM(this, this._lightDOM)
+    }
+  }
+
+  private _createVNode(): VNode {
+    const vnode = createVNode(this._def, extend({}, this._props), this._slots())
+    vnode.ce = instance => {
+      this._instance = instance
+      // also re-dispatch emitted events as native CustomEvents on the host
+      // element. The arguments are exposed as `event.detail`.
+      const emit = instance.emit
+      instance.emit = (event: string, ...args: any[]) => {
+        emit(event, ...args)
+        this.dispatchEvent(new CustomEvent(event, { detail: args }))
+        if (hyphenate(event) !== event) {
+          this.dispatchEvent(
+            new CustomEvent(hyphenate(event), { detail: args })
+          )
+        }
+      }
+    }
+    return vnode
+  }
+
+  // Slots render native <slot> elements: the shadow root projects the light
+  // DOM into them, or the light DOM is moved into them after render when there
+  // is no shadow root.
+  private _slots(): RawSlots {
+    const slots: RawSlots = {
+      default: () => createVNode('slot')
+    }
+    const children = this._lightDOM || Array.from(this.childNodes)
+    children.forEach(node => {
+      const name = node.nodeType === 1 && (node as Element).getAttribute('slot')
+      if (name) {
+        slots[name] = () => createVNode('slot', { name })
+      }
+    })
+    return slots
+  }
+}
+
+function projectLightDOM(host: Element, nodes: Node[]) {
+  const slotEls = Array.from(host.querySelectorAll('slot'))
+  const findSlot = (name: string) =>
+    slotEls.find(el => (el.getAttribute('name') || 'default') === name)
+  nodes.forEach(node => {
+    const name =
+      (node.nodeType === 1 && (node as Element).getAttribute('slot')) ||
+      'default'
+    const slot = findSlot(name)
+    if (slot && node.parentNode !== slot) {
+      slot.appendChild(node)
+    }
+  })
+}
+
+// declared prop keys (camelized) and which of them should be cast to numbers
+// when set from an attribute
+function resolvePropKeys(
+  raw: ComponentPropsOptions | undefined
+): { props: string[]; numberProps: Record<string, true> } {
+  const numberProps: Record<string, true> = {}
+  if (!raw) {
+    return { props: [], numberProps }
+  }
+  if (isArray(raw)) {
+    return { props: raw.map(camelize), numberProps }
+  }
+  const props: string[] = []
+  for (const key in raw) {
+    const camelKey = camelize(key)
+    if (__DEV__ && camelKey[0] === '$') {
+      warn(`Invalid prop name: "${camelKey}" is a reserved property.`)
+      continue
+    }
+    props.push(camelKey)
+    const opt: Prop<unknown> | null = raw[key]
+    const type =
+      isObject(opt) && hasOwn(opt, 'type')
+        ? (opt as { type?: PropType<unknown> | true | null }).type
+        : opt
+    if (type === Number || (isArray(type) && type.includes(Number))) {
+      numberProps[camelKey] = true
+    }
+  }
+  return { props, numberProps }
+}
@@ -1 +1,217 @@
-// TODO
+import {
+  TransitionProps,
+  TransitionPropsValidators,
+  ElementWithTransition,
+  resolveTransitionProps,
+  addTransitionClass,
+  removeTransitionClass,
+  getTransitionInfo
+} from './transition'
+import {
+  Fragment,
+  Comment,
+  VNode,
+  SetupContext,
+  createVNode,
+  getCurrentInstance,
+  onUpdated,
+  isVNode,
+  warn,
+  useTransitionState,
+  resolveTransitionHooks,
+  setTransitionHooks
+} from '@vue/runtime-core'
+
+interface Position {
+  top: number
+  left: number
+}
+
+const positionMap = new WeakMap<VNode, Position>()
+const newPositionMap = new WeakMap<VNode, Position>()
+
+interface GroupElement extends ElementWithTransition {
+  // callback of the pending move transition
+  _moveCb?: (e?: TransitionEvent) => void
+}
+
+export interface TransitionGroupProps extends Omit<TransitionProps, 'mode'> {
+  tag?: string
+  moveClass?: string
+}
+
+const TransitionGroupImpl = {
+  name: `TransitionGroup`,
+  props: {
+    ...TransitionPropsValidators,
+    tag: String,
+    moveClass: String
+  },
+
+  setup(props: TransitionGroupProps, { slots }: SetupContext) {
+    const instance = getCurrentInstance()!
+    const state = useTransitionState()
+    let prevChildren: VNode[]
+    let children: VNode[]
+
+    // FLIP: positions of the children were recorded before the keyed diff
+    // (in render), compare them with the positions after the diff and
+    // animate the difference with the move class.
+    onUpdated(() => {
+      if (!prevChildren.length) {
+        return
+      }
+      const moveClass = props.moveClass || `${props.name || 'v'}-move`
+      if (
+        !hasCSSTransform(
+          prevChildren[0].el as GroupElement,
+          instance.vnode.el as Node,
+          moveClass
+        )
+      ) {
+        return
+      }
+
+      // we divide the work into three loops to avoid mixing DOM reads and
+      // writes in each iteration, which helps prevent layout thrashing.
+      prevChildren.forEach(callPendingCbs)
+      prevChildren.forEach(recordPosition)
+      const movedChildren = prevChildren.filter(applyTranslation)
+
+      // force reflow to put everything in position
+      forceReflow()
+
+      movedChildren.forEach(c => {
+        const el = c.el as GroupElement
+        const style = el.style
+        addTransitionClass(el, moveClass)
+        style.transform = style.transitionDuration = ''
+        const cb = (el._moveCb = (e?: TransitionEvent) => {
+          if (e && e.target !== el) {
+            return
+          }
+          if (!e || /transform$/.test(e.propertyName)) {
+            el.removeEventListener('transitionend', cb)
+            el._moveCb = undefined
+            removeTransitionClass(el, moveClass)
+          }
+        })
+        el.addEventListener('transitionend', cb)
+      })
+    })
+
+    return () => {
+      const cssTransitionProps = resolveTransitionProps(props)
+      const tag = props.tag || Fragment
+      prevChildren = children
+      children = slots.default ? getTransitionRawChildren(slots.default()) : []
+
+      for (let i = 0; i < children.length; i++) {
+        const child = children[i]
+        if (child.key != null) {
+          setTransitionHooks(
+            child,
+            resolveTransitionHooks(child, cssTransitionProps, state, instance)
+          )
+        } else if (__DEV__) {
+          warn(`<TransitionGroup> children must be keyed.`)
+        }
+      }
+
+      if (prevChildren) {
+        for (let i = 0; i < prevChildren.length; i++) {
+          const child = prevChildren[i]
+          // children that are removed by this render leave with the latest
+          // transition props
+          setTransitionHooks(
+            child,
+            resolveTransitionHooks(child, cssTransitionProps, state, instance)
+          )
+          positionMap.set(child, (child.el as Element).getBoundingClientRect())
+        }
+      }
+
+      return createVNode(tag, null, children)
+    }
+  }
+}
+
+// TransitionGroup does not support "mode" so it's removed from its props
+delete TransitionGroupImpl.props.mode
+
+// export the public type for h/tsx inference
+export const TransitionGroup = (TransitionGroupImpl as any) as {
+  new (): {
+    $props: TransitionGroupProps
+  }
+}
+
+// flatten fragments (e.g. the ones created by v-for) and drop comments
+function getTransitionRawChildren(children: unknown[]): VNode[] {
+  let ret: VNode[] = []
+  for (let i = 0; i < children.length; i++) {
+    const child = children[i]
+    if (!isVNode(child) || child.type === Comment) {
+      continue
+    }
+    if (child.type === Fragment) {
+      ret = ret.concat(getTransitionRawChildren(child.children as unknown[]))
+    } else {
+      ret.push(child)
+    }
+  }
+  return ret
+}
+
+// finish move transitions that are still running from a previous update
+function callPendingCbs(c: VNode) {
+  const el = c.el as GroupElement
+  if (el._moveCb) {
+    el._moveCb()
+  }
+}
+
+function recordPosition(c: VNode) {
+  newPositionMap.set(c, (c.el as Element).getBoundingClientRect())
+}
+
+function applyTranslation(c: VNode): VNode | undefined {
+  const oldPos = positionMap.get(c)!
+  const newPos = newPositionMap.get(c)!
+  const dx = oldPos.left - newPos.left
+  const dy = oldPos.top - newPos.top
+  if (dx || dy) {
+    const s = (c.el as HTMLElement).style
+    s.transform = `translate(${dx}px,${dy}px)`
+    s.transitionDuration = '0s'
+    return c
+  }
+}
+
+function forceReflow() {
+  return document.body.offsetHeight
+}
+
+// Detect whether an element with the move class applied has CSS transitions
+// on transform. Since the element may be inside an entering transition at
+// this very moment, we make a clone of it and remove all other transition
+// classes applied to ensure only the move class is applied.
+function hasCSSTransform(
+  el: GroupElement,
+  root: Node,
+  moveClass: string
+): boolean {
+  const clone = el.cloneNode() as HTMLElement
+  if (el._vtc) {
+    el._vtc.forEach(cls => {
+      cls.split(/\s+/).forEach(c => c && clone.classList.remove(c))
+    })
+  }
+  moveClass.split(/\s+/).forEach(c => c && clone.classList.add(c))
+  clone.style.display = 'none'
+  const container = (root.nodeType === 1 ? root : root.parentNode) as Element
+  container.appendChild(clone)
+  const { hasTransform } = getTransitionInfo(clone)
+  container.removeChild(clone)
+  return hasTransform
+}
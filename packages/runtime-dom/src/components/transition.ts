@@ -1 +1,346 @@
-// TODO
+import {
+  BaseTransition,
+  BaseTransitionProps,
+  FunctionalComponent,
+  warn,
+  h
+} from '@vue/runtime-core'
+import { extend, isObject } from '@vue/shared'
+
+const TRANSITION = 'transition'
+const ANIMATION = 'animation'
+
+export interface TransitionProps extends BaseTransitionProps<Element> {
+  name?: string
+  type?: typeof TRANSITION | typeof ANIMATION
+  css?: boolean
+  duration?: number | { enter: number; leave: number }
+
+  // custom transition classes
+  enterFromClass?: string
+  enterActiveClass?: string
+  enterToClass?: string
+  appearFromClass?: string
+  appearActiveClass?: string
+  appearToClass?: string
+  leaveFromClass?: string
+  leaveActiveClass?: string
+  leaveToClass?: string
+}
+
+export interface ElementWithTransition extends HTMLElement {
+  // classes added by transitions, so that they can be told apart from
+  // classes added by the user
+  _vtc?: Set<string>
+  // id of the latest transition end listener, used to discard stale ones
+  _endId?: number
+}
+
+// DOM Transition is a higher-order-component based on the platform-agnostic
+// base version. The CSS classes are applied by its JavaScript hooks.
+export const Transition: FunctionalComponent<TransitionProps> = (
+  props,
+  { slots }
+) => h(BaseTransition, resolveTransitionProps(props), slots)
+
+export const TransitionPropsValidators = (Transition.props = {
+  ...(BaseTransition as any).props,
+  name: String,
+  type: String,
+  css: {
+    type: Boolean,
+    default: true
+  },
+  duration: [String, Number, Object],
+  enterFromClass: String,
+  enterActiveClass: String,
+  enterToClass: String,
+  appearFromClass: String,
+  appearActiveClass: String,
+  appearToClass: String,
+  leaveFromClass: String,
+  leaveActiveClass: String,
+  leaveToClass: String
+})
+
+// wraps the user hooks with hooks that apply the CSS transition classes
+export function resolveTransitionProps({
+  name = 'v',
+  type,
+  css = true,
+  duration,
+  enterFromClass = `${name}-enter-from`,
+  enterActiveClass = `${name}-enter-active`,
+  enterToClass = `${name}-enter-to`,
+  appearFromClass = enterFromClass,
+  appearActiveClass = enterActiveClass,
+  appearToClass = enterToClass,
+  leaveFromClass = `${name}-leave-from`,
+  leaveActiveClass = `${name}-leave-active`,
+  leaveToClass = `${name}-leave-to`,
+  ...baseProps
+}: TransitionProps): BaseTransitionProps<Element> {
+  if (!css) {
+    return baseProps
+  }
+
+  const [enterDuration, leaveDuration] = normalizeDuration(duration)
+  const {
+    onBeforeEnter,
+    onEnter,
+    onEnterCancelled,
+    onLeave,
+    onLeaveCancelled,
+    onBeforeAppear = onBeforeEnter,
+    onAppear = onEnter,
+    onAppearCancelled = onEnterCancelled
+  } = baseProps
+
+  const finishEnter = (el: ElementWithTransition, isAppear: boolean) => {
+    removeTransitionClass(el, isAppear ? appearFromClass : enterFromClass)
+    removeTransitionClass(el, isAppear ? appearToClass : enterToClass)
+    removeTransitionClass(el, isAppear ? appearActiveClass : enterActiveClass)
+  }
+
+  const finishLeave = (el: ElementWithTransition) => {
+    removeTransitionClass(el, leaveFromClass)
+    removeTransitionClass(el, leaveToClass)
+    removeTransitionClass(el, leaveActiveClass)
+  }
+
+  const makeBeforeEnterHook = (isAppear: boolean) => {
+    return (el: ElementWithTransition) => {
+      const hook = isAppear ? onBeforeAppear : onBeforeEnter
+      hook && hook(el)
+      addTransitionClass(el, isAppear ? appearActiveClass : enterActiveClass)
+      addTransitionClass(el, isAppear ? appearFromClass : enterFromClass)
+    }
+  }
+
+  const makeEnterHook = (isAppear: boolean) => {
+    return (el: ElementWithTransition, done: () => void) => {
+      const hook = isAppear ? onAppear : onEnter
+      const resolve = () => {
+        finishEnter(el, isAppear)
+        done()
+      }
+      hook && hook(el, resolve)
+      nextFrame(() => {
+        const fromClass = isAppear ? appearFromClass : enterFromClass
+        // the transition has been cancelled in the meantime
+        if (!hasTransitionClass(el, fromClass)) {
+          return
+        }
+        removeTransitionClass(el, fromClass)
+        addTransitionClass(el, isAppear ? appearToClass : enterToClass)
+        // a hook that accepts `done` controls when the transition ends
+        if (!(hook && hook.length > 1)) {
+          whenTransitionEnds(el, type, enterDuration, resolve)
+        }
+      })
+    }
+  }
+
+  return extend(baseProps, {
+    onBeforeEnter: makeBeforeEnterHook(false),
+    onBeforeAppear: makeBeforeEnterHook(true),
+    onEnter: makeEnterHook(false),
+    onAppear: makeEnterHook(true),
+    onLeave(el: ElementWithTransition, done: () => void) {
+      const resolve = () => {
+        finishLeave(el)
+        done()
+      }
+      addTransitionClass(el, leaveActiveClass)
+      addTransitionClass(el, leaveFromClass)
+      nextFrame(() => {
+        if (!hasTransitionClass(el, leaveFromClass)) {
+          return
+        }
+        removeTransitionClass(el, leaveFromClass)
+        addTransitionClass(el, leaveToClass)
+        if (!(onLeave && onLeave.length > 1)) {
+          whenTransitionEnds(el, type, leaveDuration, resolve)
+        }
+      })
+      onLeave && onLeave(el, resolve)
+    },
+    onEnterCancelled(el: ElementWithTransition) {
+      finishEnter(el, false)
+      onEnterCancelled && onEnterCancelled(el)
+    },
+    onAppearCancelled(el: ElementWithTransition) {
+      finishEnter(el, true)
+      onAppearCancelled && onAppearCancelled(el)
+    },
+    onLeaveCancelled(el: ElementWithTransition) {
+      finishLeave(el)
+      onLeaveCancelled && onLeaveCancelled(el)
+    }
+  } as TransitionProps)
+}
+
+function normalizeDuration(
+  duration: TransitionProps['duration']
+): [number | null, number | null] {
+  if (duration == null) {
+    return [null, null]
+  } else if (isObject(duration)) {
+    return [toNumber(duration.enter), toNumber(duration.leave)]
+  } else {
+    const n = toNumber(duration)
+    return [n, n]
+  }
+}
+
+function toNumber(val: unknown): number {
+  const res = Number(val || 0)
+  if (__DEV__ && isNaN(res)) {
+    warn(
+      `<transition> explicit duration is NaN - ` +
+        'the duration expression might be incorrect.'
+    )
+  }
+  return res
+}
+
+export function addTransitionClass(el: ElementWithTransition, cls: string) {
+  cls.split(/\s+/).forEach(c => c && el.classList.add(c))
+  ;(el._vtc || (el._vtc = new Set())).add(cls)
+}
+
+export function removeTransitionClass(el: ElementWithTransition, cls: string) {
+  cls.split(/\s+/).forEach(c => c && el.classList.remove(c))
+  if (el._vtc) {
+    el._vtc.delete(cls)
+    if (!el._vtc.size) {
+      el._vtc = undefined
+    }
+  }
+}
+
+function hasTransitionClass(el: ElementWithTransition, cls: string): boolean {
+  return !!el._vtc && el._vtc.has(cls)
+}
+
+export function nextFrame(cb: () => void) {
+  requestAnimationFrame(() => {
+    requestAnimationFrame(cb)
+  })
+}
+
+let endId = 0
+
+// resolve once the CSS transition / animation of the element has ended, or
+// after the explicit duration if one is specified
+function whenTransitionEnds(
+  el: ElementWithTransition,
+  expectedType: TransitionProps['type'] | undefined,
+  explicitTimeout: number | null,
+  resolve: () => void
+) {
+  const id = (el._endId = ++endId)
+  const resolveIfNotStale = () => {
+    if (id === el._endId) {
+      resolve()
+    }
+  }
+
+  if (explicitTimeout) {
+    setTimeout(resolveIfNotStale, explicitTimeout)
+    return
+  }
+
+  const { type, timeout, propCount } = getTransitionInfo(el, expectedType)
+  if (!type) {
+    return resolve()
+  }
+
+  const endEvent = type + 'end'
+  let ended = 0
+  const end = () => {
+    el.removeEventListener(endEvent, onEnd)
+    resolveIfNotStale()
+  }
+  const onEnd = (e: Event) => {
+    if (e.target === el && ++ended >= propCount) {
+      end()
+    }
+  }
+  // in case the end event never fires (e.g. the element is hidden)
+  setTimeout(() => {
+    if (ended < propCount) {
+      end()
+    }
+  }, timeout + 1)
+  el.addEventListener(endEvent, onEnd)
+}
+
+interface CSSTransitionInfo {
+  type: typeof TRANSITION | typeof ANIMATION | null
+  propCount: number
+  timeout: number
+  hasTransform: boolean
+}
+
+export function getTransitionInfo(
+  el: Element,
+  expectedType?: TransitionProps['type']
+): CSSTransitionInfo {
+  const styles: any = window.getComputedStyle(el)
+  // JSDOM may return undefined for transition properties
+  const getStyleProperties = (key: string) => (styles[key] || '').split(', ')
+  const transitionDelays = getStyleProperties(TRANSITION + 'Delay')
+  const transitionDurations = getStyleProperties(TRANSITION + 'Duration')
+  const transitionTimeout = getTimeout(transitionDelays, transitionDurations)
+  const animationDelays = getStyleProperties(ANIMATION + 'Delay')
+  const animationDurations = getStyleProperties(ANIMATION + 'Duration')
+  const animationTimeout = getTimeout(animationDelays, animationDurations)
+
+  let type: CSSTransitionInfo['type'] = null
+  let timeout = 0
+  let propCount = 0
+  if (expectedType === TRANSITION) {
+    if (transitionTimeout > 0) {
+      type = TRANSITION
+      timeout = transitionTimeout
+      propCount = transitionDurations.length
+    }
+  } else if (expectedType === ANIMATION) {
+    if (animationTimeout > 0) {
+      type = ANIMATION
+      timeout = animationTimeout
+      propCount = animationDurations.length
+    }
+  } else {
+    timeout = Math.max(transitionTimeout, animationTimeout)
+    type =
+      timeout > 0
+        ? transitionTimeout > animationTimeout
+          ? TRANSITION
+          : ANIMATION
+        : null
+    propCount = type
+      ? type === TRANSITION
+        ? transitionDurations.length
+        : animationDurations.length
+      : 0
+  }
+  const hasTransform =
+    type === TRANSITION &&
+    /\b(transform|all)(,|$)/.test(styles[TRANSITION + 'Property'])
+  return { type, timeout, propCount, hasTransform }
+}
+
+function getTimeout(delays: string[], durations: string[]): number {
+  while (delays.length < durations.length) {
+    delays = delays.concat(delays)
+  }
+  return Math.max(...durations.map((d, i) => toMs(d) + toMs(delays[i])))
+}
+
+// Old versions of Chromium (below 61.0.3163.100) formats floating pointer
+// numbers in a locale-dependent way, using a comma instead of a dot.
+function toMs(s: string): number {
+  return Number(s.slice(0, -1).replace(',', '.')) * 1000
+}
@@ -1,37 +1,20 @@
-import { createRenderer, warn } from '@vue/runtime-core'
-import { nodeOps } from './nodeOps'
-import { patchProp } from './patchProp'
+import { warn, App } from '@vue/runtime-core'
+import { render, hydrate, baseCreateApp, baseCreateSSRApp } from './renderer'
 // Importing from the compiler, will be tree-shaken in prod
 import { isHTMLTag, isSVGTag } from '@vue/compiler-dom'
 import { isFunction, isString } from '@vue/shared'
 
-const { render, createApp: baseCreateApp } = createRenderer<Node, Element>({
-  patchProp,
-  ...nodeOps
-})
-
 const createApp = () => {
   const app = baseCreateApp()
 
   if (__DEV__) {
-    // Inject `isNativeTag`
-    // this is used for component name validation (dev only)
-    Object.defineProperty(app.config, 'isNativeTag', {
-      value: (tag: string) => isHTMLTag(tag) || isSVGTag(tag),
-      writable: false
-    })
+    injectNativeTagCheck(app)
   }
 
   const mount = app.mount
-  app.mount = (component, container, props): any => {
-    if (isString(container)) {
-      container = document.querySelector(container)!
-      if (!container) {
-        __DEV__ &&
-          warn(`Failed to mount app: mount target selector returned null.`)
-        return
-      }
-    }
+  app.mount = (component, containerOrSelector, props): any => {
+    const container = normalizeContainer(containerOrSelector)
+    if (!container) return
     if (
       __RUNTIME_COMPILE__ &&
       !isFunction(component) &&
@@ -48,7 +31,46 @@ const createApp = () => {
   return app
 }
 
-export { render, createApp }
+const createSSRApp = () => {
+  const app = baseCreateSSRApp()
+
+  if (__DEV__) {
+    injectNativeTagCheck(app)
+  }
+
+  const mount = app.mount
+  app.mount = (component, containerOrSelector, props): any => {
+    const container = normalizeContainer(containerOrSelector)
+    if (container) {
+      // adopt the server-rendered content instead of replacing it
+      return mount(component, container, props)
+    }
+  }
+
+  return app
+}
+
+function injectNativeTagCheck(app: App) {
+  // Inject `isNativeTag`
+  // this is used for component name validation (dev only)
+  Object.defineProperty(app.config, 'isNativeTag', {
+    value: (tag: string) => isHTMLTag(tag) || isSVGTag(tag),
+    writable: false
+  })
+}
+
+function normalizeContainer(container: Element | string): Element | null {
+  if (isString(container)) {
+    const res = document.querySelector(container)
+    if (__DEV__ && !res) {
+      warn(`Failed to mount app: mount target selector returned null.`)
+    }
+    return res
+  }
+  return container
+}
+
+export { render, hydrate, createApp, createSSRApp }
 
 // DOM-only runtime helpers
 export {
@@ -60,6 +82,22 @@ export {
 } from './directives/vModel'
 
 export { withModifiers, withKeys } from './directives/vOn'
+export { vShow } from './directives/vShow'
+
+// custom elements
+export {
+  defineCustomElement,
+  VueElement,
+  VueElementConstructor,
+  CustomElementOptions
+} from './apiCustomElement'
+
+// DOM-only components
+export { Transition, TransitionProps } from './components/transition'
+export {
+  TransitionGroup,
+  TransitionGroupProps
+} from './components/transition-group'
 
 // re-export everything from core
 // h, Component, reactivity API, nextTick, flags & types
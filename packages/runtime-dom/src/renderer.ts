@@ -0,0 +1,14 @@
+import { createRenderer } from '@vue/runtime-core'
+import { nodeOps } from './nodeOps'
+import { patchProp } from './patchProp'
+
+// the DOM renderer, shared by the app API and custom elements
+export const {
+  render,
+  hydrate,
+  createApp: baseCreateApp,
+  createSSRApp: baseCreateSSRApp
+} = createRenderer<Node, Element>({
+  patchProp,
+  ...nodeOps
+})
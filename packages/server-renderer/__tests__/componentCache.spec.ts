@@ -0,0 +1,122 @@
+import { h } from '@vue/runtime-dom'
+import { mockWarn } from '@vue/runtime-test'
+import { renderToString, SSRCache } from '../src'
+
+function createStore(): SSRCache & { map: Map<string, string> } {
+  const map = new Map<string, string>()
+  return {
+    map,
+    get: key => map.get(key),
+    set: (key, html) => {
+      map.set(key, html)
+    }
+  }
+}
+
+describe('ssr: component cache', () => {
+  mockWarn()
+
+  const setup = jest.fn()
+  const Card = {
+    name: 'Card',
+    props: ['id', 'title'],
+    serverCacheKey: (props: { id: number }) => props.id,
+    setup(props: { title: string }) {
+      setup()
+      return () => h('div', { class: 'card' }, props.title)
+    }
+  }
+
+  beforeEach(() => {
+    setup.mockClear()
+  })
+
+  test('cache hits skip setup() and render', async () => {
+    const cache = createStore()
+    const list = () =>
+      h('div', [
+        h(Card, { id: 1, title: 'foo' }),
+        h(Card, { id: 1, title: 'foo' }),
+        h(Card, { id: 2, title: 'bar' })
+      ])
+    const expected =
+      `<div><div class="card">foo</div><div class="card">foo</div>` +
+      `<div class="card">bar</div></div>`
+
+    expect(await renderToString(list(), { cache })).toBe(expected)
+    expect(setup).toHaveBeenCalledTimes(2)
+    expect(cache.map.get('Card::1')).toBe(`<div class="card">foo</div>`)
+    expect(cache.map.get('Card::2')).toBe(`<div class="card">bar</div>`)
+
+    // subsequent renders are served entirely from the cache
+    expect(await renderToString(list(), { cache })).toBe(expected)
+    expect(setup).toHaveBeenCalledTimes(2)
+  })
+
+  test('no caching without a store or with a falsy key', async () => {
+    await renderToString(h(Card, { id: 1, title: 'foo' }))
+    expect(setup).toHaveBeenCalledTimes(1)
+
+    const cache = createStore()
+    await renderToString(h(Card, { id: null, title: 'foo' }), { cache })
+    await renderToString(h(Card, { id: null, title: 'foo' }), { cache })
+    expect(setup).toHaveBeenCalledTimes(3)
+    expect(cache.map.size).toBe(0)
+  })
+
+  test('key is computed from the resolved props', async () => {
+    const cache = createStore()
+    const Comp = {
+      name: 'Comp',
+      props: {
+        id: { type: Number, default: 1 }
+      },
+      serverCacheKey: (props: { id: number }) => props.id,
+      render: () => h('div')
+    }
+    await renderToString(h(Comp), { cache })
+    expect([...cache.map.keys()]).toEqual(['Comp::1'])
+  })
+
+  test('warn and skip caching when name is missing', async () => {
+    const cache = createStore()
+    const Comp = {
+      serverCacheKey: () => 'foo',
+      render: () => h('div')
+    }
+    expect(await renderToString(h(Comp), { cache })).toBe(`<div></div>`)
+    expect(cache.map.size).toBe(0)
+    expect(
+      `Components that implement "serverCacheKey" must also define a unique "name" option.`
+    ).toHaveBeenWarned()
+  })
+
+  test('async store and async setup()', async () => {
+    const map = new Map<string, string>()
+    const cache: SSRCache = {
+      get: async key => map.get(key),
+      set: (key, html) => {
+        map.set(key, html)
+      }
+    }
+    const AsyncCard = {
+      name: 'AsyncCard',
+      serverCacheKey: () => 'card',
+      async setup() {
+        setup()
+        await new Promise(r => setTimeout(r))
+        return () => h('p', [h(Card, { id: 3, title: 'inner' })])
+      }
+    }
+    const tree = () => h('div', [h(AsyncCard), 'after'])
+    const expected = `<div><p><div class="card">inner</div></p>after</div>`
+    expect(await renderToString(tree(), { cache })).toBe(expected)
+    expect(map.get('AsyncCard::card')).toBe(
+      `<p><div class="card">inner</div></p>`
+    )
+    expect(setup).toHaveBeenCalledTimes(2)
+
+    expect(await renderToString(tree(), { cache })).toBe(expected)
+    expect(setup).toHaveBeenCalledTimes(2)
+  })
+})
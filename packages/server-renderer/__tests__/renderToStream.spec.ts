@@ -0,0 +1,142 @@
+import { Readable } from 'stream'
+import { createApp, h, inject, Portal } from '@vue/runtime-dom'
+import { renderToStream, renderToString, SSRContext } from '../src'
+
+function collect(stream: Readable): Promise<string[]> {
+  const chunks: string[] = []
+  return new Promise((resolve, reject) => {
+    stream.on('data', chunk => chunks.push(chunk.toString()))
+    stream.on('end', () => resolve(chunks))
+    stream.on('error', reject)
+  })
+}
+
+describe('ssr: renderToStream', () => {
+  test('sync tree is flushed as a single chunk', async () => {
+    const stream = renderToStream(h('div', [h('span', 'foo'), 'bar']))
+    expect(stream).toBeInstanceOf(Readable)
+    expect(await collect(stream)).toEqual([`<div><span>foo</span>bar</div>`])
+  })
+
+  test('same output as renderToString', async () => {
+    const Async = {
+      async setup() {
+        await new Promise(r => setTimeout(r))
+        return () => h('b', 'async')
+      }
+    }
+    const tree = () => h('div', [h('p', 'a'), h(Async), h('p', 'b')])
+    const chunks = await collect(renderToStream(tree()))
+    expect(chunks.join('')).toBe(await renderToString(tree()))
+  })
+
+  test('async setup() only pauses its own subtree', async () => {
+    let resolveSetup: () => void
+    const Async = {
+      async setup() {
+        await new Promise(r => (resolveSetup = r))
+        return () => h('span', 'async')
+      }
+    }
+    const stream = renderToStream(
+      h('div', [h('h1', 'before'), h(Async), h('h2', 'after')])
+    )
+    const chunks: string[] = []
+    stream.on('data', chunk => chunks.push(chunk.toString()))
+
+    await new Promise(r => setTimeout(r))
+    // content preceding the pending component has already been sent
+    expect(chunks.join('')).toBe(`<div><h1>before</h1>`)
+
+    resolveSetup!()
+    await new Promise(r => stream.on('end', r))
+    expect(chunks.join('')).toBe(
+      `<div><h1>before</h1><span>async</span><h2>after</h2></div>`
+    )
+  })
+
+  test('pauses until the consumer reads', async () => {
+    const Async = {
+      async setup() {
+        await new Promise(r => setTimeout(r))
+        return () => h('p', 'x'.repeat(20000))
+      }
+    }
+    const tree = () => h('div', [h(Async), h(Async), h(Async)])
+    const stream = renderToStream(tree())
+    const push = jest.spyOn(stream, 'push')
+
+    // nothing is read: only the chunks filling the buffer are pushed
+    await new Promise(r => setTimeout(r, 10))
+    expect(push.mock.calls.map(([chunk]) => chunk.length)).toEqual([5, 20007])
+
+    const chunks = await collect(stream)
+    expect(chunks.join('')).toBe(await renderToString(tree()))
+  })
+
+  test('app with root component', async () => {
+    const app = createApp()
+    app.provide('msg', 'hello')
+    const Root = {
+      props: ['id'],
+      setup(props: { id: string }) {
+        const msg = inject('msg') as string
+        return () => h('div', { id: props.id }, msg)
+      }
+    }
+    expect(
+      (await collect(renderToStream(app, Root, { id: 'app' }))).join('')
+    ).toBe(`<div id="app">hello</div>`)
+  })
+
+  test('portals are available in context after the stream ends', async () => {
+    const context: SSRContext = {}
+    const chunks = await collect(
+      renderToStream(
+        h('div', [h(Portal, { target: '#modal' }, [h('p', 'modal')])]),
+        context
+      )
+    )
+    expect(chunks.join('')).toBe(`<div><!----></div>`)
+    expect(context.portals).toEqual({ '#modal': `<p>modal</p>` })
+  })
+
+  test('emits error when rendering fails', async () => {
+    const Comp = {
+      async setup() {
+        return () => {
+          throw new Error('render error')
+        }
+      }
+    }
+    await expect(collect(renderToStream(h(Comp)))).rejects.toThrow(
+      'render error'
+    )
+  })
+
+  test('emits error of an async sibling of a pending async subtree', async () => {
+    const onUnhandled = jest.fn()
+    process.on('unhandledRejection', onUnhandled)
+    const SlowChild = {
+      async setup() {
+        await new Promise(r => setTimeout(r, 10))
+        return () => h('span', 'slow')
+      }
+    }
+    const FailingChild = {
+      async setup() {
+        throw new Error('async error')
+      }
+    }
+    try {
+      await expect(
+        collect(renderToStream(h('div', [h(SlowChild), h(FailingChild)])))
+      ).rejects.toThrow('async error')
+      // let a pending unhandled rejection be reported
+      await new Promise(r => setTimeout(r))
+      expect(onUnhandled).not.toHaveBeenCalled()
+    } finally {
+      process.removeListener('unhandledRejection', onUnhandled)
+    }
+  })
+})
@@ -0,0 +1,419 @@
+import {
+  createApp,
+  h,
+  Fragment,
+  Portal,
+  Suspense,
+  KeepAlive,
+  createComponent,
+  createCommentVNode,
+  createTextVNode,
+  provide,
+  inject,
+  ref,
+  reactive,
+  resolveComponent,
+  FunctionalComponent,
+  VNode,
+  withDirectives
+} from '@vue/runtime-dom'
+import { renderToString, SSRContext } from '../src'
+import { mockWarn } from '@vue/runtime-test'
+
+// render with runtime-dom to compare against the actual client output
+function renderWithDOM(vnode: VNode): string {
+  const container = document.createElement('div')
+  createApp().mount(
+    {
+      render: () => vnode
+    },
+    container
+  )
+  return container.innerHTML
+}
+
+describe('ssr: renderToString', () => {
+  mockWarn()
+
+  describe('elements', () => {
+    test('basic', async () => {
+      expect(await renderToString(h('div'))).toBe(`<div></div>`)
+      expect(await renderToString(h('div', 'hello'))).toBe(`<div>hello</div>`)
+      expect(
+        await renderToString(h('div', [h('span', 'foo'), h('b', 'bar')]))
+      ).toBe(`<div><span>foo</span><b>bar</b></div>`)
+    })
+
+    test('void elements', async () => {
+      expect(await renderToString(h('input'))).toBe(`<input>`)
+      expect(await renderToString(h('div', [h('br'), h('img')]))).toBe(
+        `<div><br><img></div>`
+      )
+    })
+
+    test('escape text content', async () => {
+      expect(await renderToString(h('div', `<b>"foo" & 'bar'</b>`))).toBe(
+        `<div>&lt;b&gt;&quot;foo&quot; &amp; &#39;bar&#39;&lt;/b&gt;</div>`
+      )
+      expect(
+        await renderToString(h('div', [createTextVNode('<script>')]))
+      ).toBe(`<div>&lt;script&gt;</div>`)
+    })
+
+    test('attrs', async () => {
+      expect(
+        await renderToString(
+          h('div', { id: 'foo', title: `"bar"`, 'data-x': 1 })
+        )
+      ).toBe(`<div id="foo" title="&quot;bar&quot;" data-x="1"></div>`)
+      // null values are omitted
+      expect(await renderToString(h('div', { id: null }))).toBe(`<div></div>`)
+    })
+
+    test('boolean attrs', async () => {
+      expect(
+        await renderToString(
+          h('input', { checked: true, disabled: '', readonly: false })
+        )
+      ).toBe(`<input checked disabled>`)
+    })
+
+    test('props mapped to attrs', async () => {
+      expect(await renderToString(h('label', { htmlFor: 'foo' }))).toBe(
+        `<label for="foo"></label>`
+      )
+    })
+
+    test('ignores event listeners, reserved and model props', async () => {
+      expect(
+        await renderToString(
+          h('input', {
+            key: 1,
+            ref: 'input',
+            onClick: () => {},
+            onVnodeMounted: () => {},
+            modelValue: 'foo',
+            'onUpdate:modelValue': () => {}
+          })
+        )
+      ).toBe(`<input>`)
+    })
+
+    test('class', async () => {
+      expect(
+        await renderToString(
+          h('div', { class: ['foo', { bar: true, baz: false }] })
+        )
+      ).toBe(`<div class="foo bar"></div>`)
+    })
+
+    test('style', async () => {
+      expect(
+        await renderToString(
+          h('div', {
+            style: [{ color: 'red' }, { fontSize: '14px', display: null }]
+          })
+        )
+      ).toBe(`<div style="color:red;font-size:14px;"></div>`)
+    })
+
+    test('innerHTML / textContent / textarea value', async () => {
+      expect(
+        await renderToString(h('div', { innerHTML: '<b>foo</b>' }, 'ignored'))
+      ).toBe(`<div><b>foo</b></div>`)
+      expect(await renderToString(h('div', { textContent: '<b>' }))).toBe(
+        `<div>&lt;b&gt;</div>`
+      )
+      expect(await renderToString(h('textarea', { value: '<foo>' }))).toBe(
+        `<textarea>&lt;foo&gt;</textarea>`
+      )
+    })
+
+    test('svg', async () => {
+      expect(
+        await renderToString(
+          h('svg', { viewBox: '0 0 10 10' }, [h('circle', { r: 5 })])
+        )
+      ).toBe(`<svg viewBox="0 0 10 10"><circle r="5"></circle></svg>`)
+    })
+  })
+
+  describe('fragments, comments & text', () => {
+    test('comment', async () => {
+      expect(await renderToString(h('div', [createCommentVNode('foo')]))).toBe(
+        `<div><!--foo--></div>`
+      )
+    })
+
+    test('fragment', async () => {
+      expect(
+        await renderToString(h('div', [h(Fragment, ['foo', h('span', 'bar')])]))
+      ).toBe(`<div><!--[-->foo<span>bar</span><!--]--></div>`)
+    })
+
+    test('nested arrays are normalized into fragments', async () => {
+      expect(await renderToString(h('div', [['foo', 'bar'], 'baz']))).toBe(
+        `<div><!--[-->foobar<!--]-->baz</div>`
+      )
+    })
+  })
+
+  describe('components', () => {
+    test('stateful component with setup()', async () => {
+      const Comp = createComponent({
+        props: { msg: String },
+        setup(props: { msg: string }) {
+          const count = ref(1)
+          return () => h('div', `${props.msg} ${count.value}`)
+        }
+      })
+      expect(await renderToString(h(Comp, { msg: 'hello' }))).toBe(
+        `<div>hello 1</div>`
+      )
+    })
+
+    test('options API', async () => {
+      const Comp = {
+        data() {
+          return { msg: 'hello' }
+        },
+        computed: {
+          upper(): string {
+            return (this as any).msg.toUpperCase()
+          }
+        },
+        render(this: any) {
+          return h('div', this.upper)
+        }
+      }
+      expect(await renderToString(h(Comp))).toBe(`<div>HELLO</div>`)
+    })
+
+    test('functional component', async () => {
+      const Func: FunctionalComponent<{ msg: string }> = props =>
+        h('span', props.msg)
+      expect(await renderToString(h('div', [h(Func, { msg: 'foo' })]))).toBe(
+        `<div><span>foo</span></div>`
+      )
+    })
+
+    test('nested components & slots', async () => {
+      const Child = {
+        setup(_: any, { slots }: any) {
+          return () =>
+            h('div', [
+              slots.header ? slots.header() : null,
+              slots.default && slots.default({ msg: 'slot' })
+            ])
+        }
+      }
+      const Parent = {
+        setup() {
+          return () =>
+            h(Child, null, {
+              header: () => h('h1', 'header'),
+              default: ({ msg }: any) => [h('p', msg)]
+            })
+        }
+      }
+      // normalized slots return arrays, which are rendered as fragments
+      expect(await renderToString(h(Parent))).toBe(
+        `<div><!--[--><h1>header</h1><!--]--><!--[--><p>slot</p><!--]--></div>`
+      )
+    })
+
+    test('attrs fallthrough', async () => {
+      const Child = {
+        props: ['msg'],
+        render(this: any) {
+          return h('div', { class: 'child' }, this.msg)
+        }
+      }
+      expect(
+        await renderToString(
+          h(Child, { msg: 'hi', class: 'parent', id: 'foo' })
+        )
+      ).toBe(`<div class="child parent" id="foo">hi</div>`)
+    })
+
+    test('provide / inject', async () => {
+      const Child = {
+        setup() {
+          const foo = inject('foo')
+          return () => h('span', foo as string)
+        }
+      }
+      const Parent = {
+        setup() {
+          provide('foo', 'injected')
+          return () => h(Child)
+        }
+      }
+      expect(await renderToString(h(Parent))).toBe(`<span>injected</span>`)
+    })
+
+    test('reactive state mutated in setup', async () => {
+      const Comp = {
+        setup() {
+          const state = reactive({ list: [1, 2] })
+          state.list.push(3)
+          return () => h('ul', state.list.map(i => h('li', { key: i }, i)))
+        }
+      }
+      expect(await renderToString(h(Comp))).toBe(
+        `<ul><li>1</li><li>2</li><li>3</li></ul>`
+      )
+    })
+
+    test('async setup()', async () => {
+      const AsyncChild = {
+        async setup() {
+          await new Promise(r => setTimeout(r))
+          return () => h('span', 'async')
+        }
+      }
+      const Comp = {
+        setup() {
+          return () =>
+            h('div', [h('b', 'before'), h(AsyncChild), h('b', 'after')])
+        }
+      }
+      expect(await renderToString(h(Comp))).toBe(
+        `<div><b>before</b><span>async</span><b>after</b></div>`
+      )
+    })
+
+    test('failing async sibling of a pending async subtree', async () => {
+      const onUnhandled = jest.fn()
+      process.on('unhandledRejection', onUnhandled)
+      const SlowChild = {
+        async setup() {
+          await new Promise(r => setTimeout(r, 10))
+          return () => h('span', 'slow')
+        }
+      }
+      const FailingChild = {
+        async setup() {
+          throw new Error('async error')
+        }
+      }
+      try {
+        await expect(
+          renderToString(h('div', [h(SlowChild), h(FailingChild)]))
+        ).rejects.toThrow('async error')
+        // let a pending unhandled rejection be reported
+        await new Promise(r => setTimeout(r))
+        expect(onUnhandled).not.toHaveBeenCalled()
+      } finally {
+        process.removeListener('unhandledRejection', onUnhandled)
+      }
+    })
+
+    test('resets the rendering instance when ssrRender throws', async () => {
+      const Comp = {
+        ssrRender() {
+          throw new Error('ssrRender error')
+        }
+      }
+      await expect(renderToString(h(Comp))).rejects.toThrow('ssrRender error')
+      // no instance is being rendered anymore
+      withDirectives(h('div'), [])
+      expect(
+        `withDirectives can only be used inside render functions.`
+      ).toHaveBeenWarned()
+    })
+
+    test('Suspense renders resolved default content', async () => {
+      const AsyncChild = {
+        async setup() {
+          return () => h('span', 'resolved')
+        }
+      }
+      expect(
+        await renderToString(
+          h(Suspense, null, {
+            default: () => h(AsyncChild),
+            fallback: () => h('span', 'fallback')
+          })
+        )
+      ).toBe(`<span>resolved</span>`)
+    })
+
+    test('KeepAlive renders its child', async () => {
+      const Child = () => h('div', 'child')
+      expect(await renderToString(h(KeepAlive, null, () => h(Child)))).toBe(
+        `<div>child</div>`
+      )
+    })
+  })
+
+  describe('portal', () => {
+    test('content is rendered into context.portals', async () => {
+      const context: SSRContext = {}
+      const html = await renderToString(
+        h('div', [
+          h(Portal, { target: '#target' }, [h('span', 'portal')]),
+          h(Portal, { target: '#target' }, 'text')
+        ]),
+        context
+      )
+      expect(html).toBe(`<div><!----><!----></div>`)
+      expect(context.portals).toEqual({
+        '#target': `<span>portal</span>text`
+      })
+    })
+
+    test('non-string target', async () => {
+      await renderToString(
+        h(Portal, { target: document.createElement('div') }, 'foo')
+      )
+      expect(`Portal target must be a query selector string`).toHaveBeenWarned()
+    })
+  })
+
+  describe('app', () => {
+    test('renders an app with its root component and props', async () => {
+      const app = createApp()
+      app.provide('foo', 'bar')
+      app.component('Child', {
+        setup() {
+          const foo = inject('foo') as string
+          return () => h('span', foo)
+        }
+      })
+      const Root = {
+        props: ['msg'],
+        setup(props: { msg: string }) {
+          return () =>
+            h('div', [props.msg, h(resolveComponent('Child') as any)])
+        }
+      }
+      expect(await renderToString(app, Root, { msg: 'hello' })).toBe(
+        `<div>hello<span>bar</span></div>`
+      )
+    })
+  })
+
+  test('matches runtime-dom output', async () => {
+    const Child = {
+      props: ['label'],
+      render(this: any) {
+        return h('li', { class: { active: true } }, this.label)
+      }
+    }
+    const tree = () =>
+      h('div', { id: 'app', class: ['a', 'b'] }, [
+        h('h1', 'title'),
+        createCommentVNode('comment'),
+        h(Fragment, [h('p', 'one'), 'two']),
+        h('ul', [h(Child, { label: 'x' }), h(Child, { label: 'y' })]),
+        h('input', { type: 'text', placeholder: 'foo' })
+      ])
+    // fragment anchors are only marked apart in the server-rendered markup
+    const html = (await renderToString(tree())).replace(
+      /<!--[[\]]-->/g,
+      '<!---->'
+    )
+    expect(html).toBe(renderWithDOM(tree()))
+  })
+})
@@ -0,0 +1,134 @@
+import {
+  createApp,
+  createSSRApp,
+  h,
+  inject,
+  reactive,
+  isReactive,
+  hydrateState
+} from '@vue/runtime-dom'
+import { renderToString, serializeState, renderState } from '../src'
+
+describe('ssr: state serialization', () => {
+  test('escapes characters that are unsafe in inline scripts', () => {
+    const serialized = serializeState({
+      html: '</script><script>alert(1)</script>',
+      comment: '<!--',
+      separators: '\u2028\u2029'
+    })
+    expect(serialized).not.toMatch('<')
+    expect(serialized).not.toMatch('>')
+    expect(serialized).not.toMatch('\u2028')
+    expect(serialized).not.toMatch('\u2029')
+    expect(serialized).toBe(
+      `{"html":"\\u003C\\u002Fscript\\u003E\\u003Cscript\\u003Ealert(1)\\u003C\\u002Fscript\\u003E",` +
+        `"comment":"\\u003C!--","separators":"\\u2028\\u2029"}`
+    )
+    // still valid JSON and a valid JS expression
+    expect(JSON.parse(serialized).html).toBe(
+      '</script><script>alert(1)</script>'
+    )
+    expect(new Function(`return ${serialized}`)().separators).toBe(
+      '\u2028\u2029'
+    )
+  })
+
+  test('Map, Set and Date round trip', () => {
+    const date = new Date(2019, 11, 24)
+    const state = reactive({
+      map: new Map<string, any>([['a', { date }], ['b', new Set([1, 2])]]),
+      set: new Set(['x']),
+      date,
+      nested: [{ date }]
+    })
+    const restored = hydrateState(serializeState(state))
+    expect(isReactive(restored)).toBe(true)
+    expect(restored.map).toBeInstanceOf(Map)
+    expect(restored.map.get('a').date).toBeInstanceOf(Date)
+    expect(restored.map.get('a').date.getTime()).toBe(date.getTime())
+    expect(restored.map.get('b')).toBeInstanceOf(Set)
+    expect(Array.from(restored.map.get('b'))).toEqual([1, 2])
+    expect(Array.from(restored.set)).toEqual(['x'])
+    expect(restored.date.getTime()).toBe(date.getTime())
+    expect(restored.nested[0].date).toBeInstanceOf(Date)
+  })
+
+  test('drops keys that would modify prototypes', () => {
+    const state = hydrateState(
+      `{"__proto__":{"polluted":true},"nested":{"__proto__":{"polluted":true},` +
+        `"constructor":{"prototype":{"polluted":true}},"ok":1}}`
+    )
+    expect(Object.getPrototypeOf(state.nested)).toBe(Object.prototype)
+    expect(Object.keys(state)).toEqual(['nested'])
+    expect(state.polluted).toBeUndefined()
+    expect(state.nested.polluted).toBeUndefined()
+    expect(({} as any).polluted).toBeUndefined()
+    // other keys are plain data
+    expect(Object.keys(state.nested)).toEqual(['constructor', 'ok'])
+    expect(state.nested.constructor.prototype.polluted).toBe(true)
+    expect(({} as any).constructor).toBe(Object)
+
+    const target = reactive<any>({})
+    hydrateState(`{"__proto__":{"polluted":true}}`, target)
+    expect(target.polluted).toBeUndefined()
+  })
+
+  test('data colliding with the type tag', () => {
+    const state = {
+      __v_ssr: 'Date',
+      value: 0,
+      __v_ssr_: 'Set',
+      nested: [{ __v_ssr: 'Map', value: [] }],
+      date: new Date(0)
+    }
+    const serialized = serializeState(state)
+    const restored = hydrateState(serialized)
+    expect(restored).toEqual(state)
+    expect(restored.date).toBeInstanceOf(Date)
+    expect(restored.nested[0]).not.toBeInstanceOf(Map)
+  })
+
+  test('renderState() + restoring into an existing reactive object', () => {
+    const html = renderState({ count: 1, tags: new Set(['a']) }, 'STATE')
+    expect(html).toMatch(/^<script>window\["STATE"\]=.*<\/script>$/)
+
+    const window: Record<string, any> = {}
+    new Function('window', html.slice(8, -9))(window)
+
+    const store = reactive({ count: 0, tags: new Set<string>() })
+    expect(hydrateState(window.STATE, store)).toBe(store)
+    expect(store.count).toBe(1)
+    expect(store.tags.has('a')).toBe(true)
+  })
+
+  test('client and server start from identical data', async () => {
+    const Comp = {
+      setup() {
+        const store = inject('store') as { items: Map<string, number> }
+        return () =>
+          h(
+            'ul',
+            Array.from(store.items).map(([name, n]) => h('li', `${name}${n}`))
+          )
+      }
+    }
+
+    // server: state is mutated while fetching data for the render
+    const serverStore = reactive({ items: new Map<string, number>() })
+    serverStore.items.set('foo', 1)
+    const serverApp = createApp()
+    serverApp.provide('store', serverStore)
+    const html = await renderToString(serverApp, Comp)
+    const state = serializeState(serverStore)
+
+    // client
+    const container = document.createElement('div')
+    container.innerHTML = html
+    const clientStore = hydrateState(state)
+    const app = createSSRApp()
+    app.provide('store', clientStore)
+    app.mount(Comp, container)
+    expect(app.hydrationMismatches).toBe(0)
+    expect(container.innerHTML).toBe(`<ul><li>foo1</li></ul>`)
+  })
+})
@@ -0,0 +1,128 @@
+import { createApp, h, reactive, onServerPrefetch } from '@vue/runtime-dom'
+import { mockWarn } from '@vue/runtime-test'
+import { renderToString } from '../src'
+
+const tick = () => new Promise(r => setTimeout(r))
+
+describe('ssr: serverPrefetch', () => {
+  mockWarn()
+
+  test('onServerPrefetch() is awaited before rendering', async () => {
+    const Comp = {
+      setup() {
+        const state = reactive({ msg: 'initial' })
+        onServerPrefetch(async () => {
+          await tick()
+          state.msg = 'fetched'
+        })
+        return () => h('div', state.msg)
+      }
+    }
+    expect(await renderToString(h('section', [h(Comp), h('p', 'after')]))).toBe(
+      `<section><div>fetched</div><p>after</p></section>`
+    )
+  })
+
+  test('serverPrefetch option, mixins and multiple hooks', async () => {
+    const calls: string[] = []
+    const mixin = {
+      async serverPrefetch(this: any) {
+        await tick()
+        calls.push('mixin')
+        this.fromMixin = true
+      }
+    }
+    const Comp = {
+      mixins: [mixin],
+      data: () => ({ msg: '', fromMixin: false }),
+      async serverPrefetch(this: any) {
+        await tick()
+        calls.push('option')
+        this.msg = 'option'
+      },
+      setup() {
+        onServerPrefetch(() => {
+          calls.push('setup')
+        })
+      },
+      render(this: any) {
+        return h('div', `${this.msg},${this.fromMixin}`)
+      }
+    }
+    expect(await renderToString(h(Comp))).toBe(`<div>option,true</div>`)
+    expect(calls.sort()).toEqual(['mixin', 'option', 'setup'])
+  })
+
+  test('nested components and async setup()', async () => {
+    const Child = {
+      props: ['id'],
+      setup(props: { id: number }) {
+        const state = reactive({ data: '' })
+        onServerPrefetch(async () => {
+          await tick()
+          state.data = `child${props.id}`
+        })
+        return () => h('span', state.data)
+      }
+    }
+    const Parent = {
+      async setup() {
+        const state = reactive({ ids: [] as number[] })
+        // hooks must be registered before the first await
+        onServerPrefetch(async () => {
+          await tick()
+          state.ids = [1, 2]
+        })
+        await tick()
+        return () => h('div', state.ids.map(id => h(Child, { id })))
+      }
+    }
+    expect(await renderToString(h(Parent))).toBe(
+      `<div><span>child1</span><span>child2</span></div>`
+    )
+  })
+
+  test('errors are passed to handleError and the subtree still renders', async () => {
+    const err = new Error('prefetch failed')
+    const handler = jest.fn()
+    const app = createApp()
+    app.config.errorHandler = handler
+    const Comp = {
+      setup() {
+        const state = reactive({ msg: 'fallback' })
+        onServerPrefetch(async () => {
+          await tick()
+          throw err
+        })
+        onServerPrefetch(() => {
+          throw err
+        })
+        return () => h('div', state.msg)
+      }
+    }
+    expect(await renderToString(app, Comp)).toBe(`<div>fallback</div>`)
+    expect(handler).toHaveBeenCalledTimes(2)
+    expect(handler.mock.calls[0][0]).toBe(err)
+    expect(handler.mock.calls[0][2]).toBe('serverPrefetch hook')
+  })
+
+  test('not called on the client', () => {
+    const prefetch = jest.fn()
+    const Comp = {
+      serverPrefetch: prefetch,
+      setup() {
+        onServerPrefetch(prefetch)
+        return () => h('div')
+      }
+    }
+    createApp().mount(Comp, document.createElement('div'))
+    expect(prefetch).not.toHaveBeenCalled()
+  })
+
+  test('warn when called outside of setup()', () => {
+    onServerPrefetch(() => {})
+    expect(
+      `onServerPrefetch is called when there is no active component instance`
+    ).toHaveBeenWarned()
+  })
+})
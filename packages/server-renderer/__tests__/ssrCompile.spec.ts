@@ -0,0 +1,124 @@
+import * as Vue from '@vue/runtime-dom'
+import { compile } from '@vue/compiler-dom'
+import { createApp, h, Component } from '@vue/runtime-dom'
+import * as ServerRenderer from '../src'
+import { renderToString } from '../src'
+
+// compile a template into a component that is rendered with the compiled
+// `ssrRender` function on the server.
+function compileSSR(template: string, options: object = {}): Component {
+  const { code } = compile(template, { ssr: true })
+  const ssrRender = new Function('require', code)(
+    (id: string) => (id === 'vue' ? Vue : ServerRenderer)
+  )
+  return { ...options, ssrRender } as any
+}
+
+// same component rendered through the regular vnode render function
+function compileVNode(template: string, options: object = {}): Component {
+  const { code } = compile(template, { prefixIdentifiers: true })
+  const render = new Function('Vue', code)(Vue)
+  return { ...options, render } as any
+}
+
+async function expectSameOutput(template: string, options: object = {}) {
+  const compiled = await renderToString(h(compileSSR(template, options) as any))
+  expect(compiled).toBe(
+    await renderToString(h(compileVNode(template, options) as any))
+  )
+  return compiled
+}
+
+describe('ssr: templates compiled with `ssr: true`', () => {
+  test('static content', async () => {
+    expect(
+      await expectSameOutput(
+        `<div id="a" class="b"><span>hello &amp; bye</span><br><input disabled></div>`
+      )
+    ).toBe(
+      `<div id="a" class="b"><span>hello &amp; bye</span><br><input disabled></div>`
+    )
+  })
+
+  test('interpolation and dynamic attrs', async () => {
+    expect(
+      await expectSameOutput(
+        `<div :id="id" :class="{ active: ok }" :style="[{ color }, { fontSize: '1px' }]" @click="ok = !ok">{{ msg }} {{ list }}</div>`,
+        {
+          data: () => ({
+            id: 'foo',
+            ok: true,
+            color: 'red',
+            msg: '<b>',
+            list: [1]
+          })
+        }
+      )
+    ).toBe(
+      `<div id="foo" class="active" style="color:red;font-size:1px;">` +
+        `&lt;b&gt; [\n  1\n]</div>`
+    )
+  })
+
+  test('v-html & v-text', async () => {
+    expect(
+      await expectSameOutput(
+        `<div><p v-html="html"/><p v-text="html"/></div>`,
+        {
+          data: () => ({ html: '<b>foo</b>' })
+        }
+      )
+    ).toBe(`<div><p><b>foo</b></p><p>&lt;b&gt;foo&lt;/b&gt;</p></div>`)
+  })
+
+  test('v-show', async () => {
+    const Comp = compileSSR(
+      `<div><p v-show="ok"/><p v-show="!ok"/>` +
+        `<p style="color: red" v-show="!ok"/><p :class="cls" v-show="!ok"/></div>`,
+      {
+        data: () => ({ ok: true, cls: 'foo' })
+      }
+    )
+    expect(await renderToString(h(Comp as any))).toBe(
+      `<div><p></p><p style="display:none;"></p>` +
+        `<p style="color:red;display:none;"></p>` +
+        `<p class="foo" style="display:none;"></p></div>`
+    )
+  })
+
+  test('v-if / v-for fragments', async () => {
+    const options = {
+      data: () => ({ ok: false, list: ['a', 'b'] })
+    }
+    await expectSameOutput(
+      `<div><p v-if="ok">yes</p><template v-else>no{{ ok }}</template></div>`,
+      options
+    )
+    await expectSameOutput(`<div><p v-if="ok">yes</p></div>`, options)
+    expect(
+      await expectSameOutput(
+        `<ul><li v-for="(item, i) in list" :key="item">{{ i }}{{ item }}</li></ul>` +
+          `<template v-for="item in list">{{ item }}<br></template>`,
+        options
+      )
+    ).toBe(
+      `<!--[--><ul><!--[--><li>0a</li><li>1b</li><!--]--></ul>` +
+        `<!--[--><!--[-->a<br><!--]--><!--[-->b<br><!--]--><!--]--><!--]-->`
+    )
+  })
+
+  test('components & slots', async () => {
+    const Child = compileSSR(`<p>{{ msg }}<slot :n="1"/></p>`, {
+      props: ['msg']
+    })
+    const app = createApp()
+    app.component('Child', Child)
+    const Parent = compileSSR(
+      `<div><Child msg="hi" v-slot="{ n }"><b>{{ n + foo }}</b></Child></div>`,
+      { data: () => ({ foo: 1 }) }
+    )
+    expect(await renderToString(app, Parent)).toBe(
+      `<div><p>hi<!--[--><b>2</b><!--]--></p></div>`
+    )
+  })
+})
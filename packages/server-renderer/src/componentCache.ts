@@ -0,0 +1,74 @@
+import {
+  ComponentInternalInstance,
+  ComponentOptions,
+  warn
+} from '@vue/runtime-core'
+import { isPromise } from '@vue/shared'
+import { SSRBuffer, unrollBuffer, unrollBufferSync } from './renderToString'
+
+// Pluggable store for component-level caching, e.g. an LRU cache. `get()` may
+// be async so that external stores can be used.
+export interface SSRCache {
+  get(key: string): string | undefined | Promise<string | undefined>
+  set(key: string, html: string): void
+}
+
+// returns the cache key for a component instance with resolved props, or null
+// if it should not be cached.
+export function getCacheKey(
+  instance: ComponentInternalInstance
+): string | null {
+  const comp = instance.type as ComponentOptions
+  if (!comp.serverCacheKey) {
+    return null
+  }
+  if (!comp.name) {
+    if (__DEV__) {
+      warn(
+        `[@vue/server-renderer] Components that implement "serverCacheKey" ` +
+          `must also define a unique "name" option.`
+      )
+    }
+    return null
+  }
+  const key = comp.serverCacheKey(instance.props)
+  return key || key === 0 ? `${comp.name}::${key}` : null
+}
+
+// Render a component through the cache. On a hit the cached HTML is used
+// directly and the component is never set up or rendered. On a miss, the
+// component is rendered and its complete HTML is stored.
+// Note: portal content is rendered out of place and is not part of the
+// cached output.
+export function renderWithCache(
+  cache: SSRCache,
+  key: string,
+  render: () => SSRBuffer | Promise<SSRBuffer>
+): SSRBuffer | Promise<SSRBuffer> {
+  const cached = cache.get(key)
+  if (isPromise(cached)) {
+    return cached.then(
+      html => (html !== undefined ? [html] : renderAndStore(cache, key, render))
+    )
+  }
+  return cached !== undefined ? [cached] : renderAndStore(cache, key, render)
+}
+
+function renderAndStore(
+  cache: SSRCache,
+  key: string,
+  render: () => SSRBuffer | Promise<SSRBuffer>
+): SSRBuffer | Promise<SSRBuffer> {
+  const store = (html: string): SSRBuffer => {
+    cache.set(key, html)
+    return [html]
+  }
+  const buffer = render()
+  if (isPromise(buffer)) {
+    return buffer.then(unrollBuffer).then(store)
+  } else if (buffer.hasAsync) {
+    return unrollBuffer(buffer).then(store)
+  } else {
+    return store(unrollBufferSync(buffer))
+  }
+}
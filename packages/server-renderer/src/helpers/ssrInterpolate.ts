@@ -0,0 +1,7 @@
+import { toString } from '@vue/runtime-core'
+import { escapeHtml } from '@vue/shared'
+
+// text interpolation in templates compiled with `ssr: true`
+export function ssrInterpolate(value: unknown): string {
+  return escapeHtml(toString(value))
+}
@@ -0,0 +1,85 @@
+import {
+  escapeHtml,
+  isString,
+  isOn,
+  isReservedProp,
+  isBooleanAttr,
+  isSSRSafeAttrName,
+  propsToAttrMap,
+  hyphenate,
+  makeMap
+} from '@vue/shared'
+import { ssrUtils } from '@vue/runtime-core'
+
+const { normalizeClass, normalizeStyle } = ssrUtils
+
+// props that are handled by the renderer as children or by directives on the
+// client and never end up as attributes.
+const shouldIgnoreProp = /*#__PURE__*/ makeMap(
+  `innerHTML,textContent,modelValue`
+)
+
+export function ssrRenderAttrs(
+  props: Record<string, unknown>,
+  tag?: string
+): string {
+  let ret = ''
+  for (const key in props) {
+    if (
+      isReservedProp(key) ||
+      isOn(key) ||
+      shouldIgnoreProp(key) ||
+      (tag === 'textarea' && key === 'value')
+    ) {
+      continue
+    }
+    const value = props[key]
+    if (key === 'class') {
+      ret += ` class="${ssrRenderClass(value)}"`
+    } else if (key === 'style') {
+      ret += ` style="${ssrRenderStyle(value)}"`
+    } else {
+      ret += ssrRenderDynamicAttr(key, value)
+    }
+  }
+  return ret
+}
+
+// render an attr with dynamic (unknown) key.
+export function ssrRenderDynamicAttr(key: string, value: unknown): string {
+  if (value == null) {
+    return ``
+  }
+  const attrKey = propsToAttrMap[key] || key
+  if (isBooleanAttr(attrKey)) {
+    return value || value === '' ? ` ${attrKey}` : ``
+  } else if (isSSRSafeAttrName(attrKey)) {
+    return ` ${attrKey}="${escapeHtml(value)}"`
+  } else {
+    return ``
+  }
+}
+
+// class bindings are already normalized into a string by createVNode(), but
+// render functions compiled with `ssr: true` pass the raw binding value.
+export function ssrRenderClass(raw: unknown): string {
+  return escapeHtml(normalizeClass(raw))
+}
+
+export function ssrRenderStyle(raw: unknown): string {
+  if (raw == null) {
+    return ``
+  }
+  if (isString(raw)) {
+    return escapeHtml(raw)
+  }
+  const styles = normalizeStyle(raw) || {}
+  let ret = ''
+  for (const key in styles) {
+    const value = styles[key]
+    if (value != null && value !== '') {
+      ret += `${hyphenate(key)}:${value};`
+    }
+  }
+  return escapeHtml(ret)
+}
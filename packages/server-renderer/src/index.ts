@@ -1 +1,9 @@
-// TODO
+export { renderToString, SSRContext } from './renderToString'
+export { renderToStream } from './renderToStream'
+export { serializeState, renderState } from './serializeState'
+export { SSRCache } from './componentCache'
+
+// helpers used by render functions compiled with `ssr: true`
+export { ssrRenderVNode } from './renderToString'
+export { ssrRenderAttrs } from './helpers/ssrRenderAttrs'
+export { ssrInterpolate } from './helpers/ssrInterpolate'
@@ -0,0 +1,97 @@
+import { Readable } from 'stream'
+import { App, Component, VNode, isVNode } from '@vue/runtime-core'
+import { isString, isPromise } from '@vue/shared'
+import {
+  SSRBuffer,
+  SSRContext,
+  createAppVNode,
+  renderRootVNode,
+  resolvePortals,
+  unrollBufferSync
+} from './renderToString'
+
+// overload 1: render a vnode tree
+export function renderToStream(vnode: VNode, context?: SSRContext): Readable
+
+// overload 2: render an app with a root component, mirroring `app.mount()`
+export function renderToStream(
+  app: App,
+  rootComponent: Component,
+  rootProps?: Record<string, unknown> | null,
+  context?: SSRContext
+): Readable
+
+export function renderToStream(
+  input: App | VNode,
+  rootComponentOrContext?: Component | SSRContext,
+  rootProps?: Record<string, unknown> | null,
+  context: SSRContext = {}
+): Readable {
+  let vnode: VNode
+  if (isVNode(input)) {
+    vnode = input
+    context = (rootComponentOrContext as SSRContext) || context
+  } else {
+    vnode = createAppVNode(
+      input,
+      rootComponentOrContext as Component,
+      rootProps
+    )
+  }
+
+  // chunks are pushed as soon as they are available. Once the internal buffer
+  // is full, rendering pauses until the consumer asks for more data.
+  let resume: (() => void) | null = null
+  const stream = new Readable({
+    read() {
+      if (resume) {
+        const r = resume
+        resume = null
+        r()
+      }
+    }
+  })
+  const push: StreamPushFn = chunk => {
+    if (!stream.push(chunk)) {
+      return new Promise(r => (resume = r))
+    }
+  }
+
+  Promise.resolve()
+    .then(() => unrollBufferToStream(renderRootVNode(vnode, context), push))
+    // portal content is rendered out of place, so it is only available in
+    // `context.portals` once the stream has ended.
+    .then(() => resolvePortals(context))
+    .then(() => {
+      stream.push(null)
+    })
+    .catch(err => {
+      stream.emit('error', err)
+    })
+
+  return stream
+}
+
+// returns a promise if the consumer can't take more data yet
+type StreamPushFn = (chunk: string) => Promise<void> | void
+
+async function unrollBufferToStream(buffer: SSRBuffer, push: StreamPushFn) {
+  if (!buffer.hasAsync) {
+    // fully sync subtree: flush it as a single chunk
+    await push(unrollBufferSync(buffer))
+    return
+  }
+  for (let i = 0; i < buffer.length; i++) {
+    let item = buffer[i]
+    if (isPromise(item)) {
+      // only this subtree waits - everything before it has already been
+      // flushed to the client.
+      item = await item
+    }
+    if (isString(item)) {
+      await push(item)
+    } else {
+      await unrollBufferToStream(item, push)
+    }
+  }
+}
@@ -0,0 +1,472 @@
+import {
+  App,
+  Component,
+  ComponentInternalInstance,
+  ComponentOptions,
+  VNode,
+  VNodeChildren,
+  Text,
+  Comment,
+  Fragment,
+  Portal,
+  ShapeFlags,
+  ErrorCodes,
+  createVNode,
+  isVNode,
+  handleError,
+  warn,
+  ssrUtils
+} from '@vue/runtime-core'
+import {
+  isString,
+  isArray,
+  isFunction,
+  isPromise,
+  escapeHtml,
+  NOOP
+} from '@vue/shared'
+import { isVoidTag } from '@vue/compiler-dom'
+import { ssrRenderAttrs } from './helpers/ssrRenderAttrs'
+import { SSRCache, getCacheKey, renderWithCache } from './componentCache'
+
+const {
+  createComponentInstance,
+  resolvePropsAndSlots,
+  setupStatefulComponent,
+  handleSetupResult,
+  renderComponentRoot,
+  setCurrentRenderingInstance,
+  normalizeVNode
+} = ssrUtils
+
+// SSR context of components that are rendered by a compiled `ssrRender`
+// function, so that components and slots it renders can find it again.
+const instanceContextMap = new WeakMap<ComponentInternalInstance, SSRContext>()
+
+// Each component has a buffer array.
+// A buffer array can contain one of the following:
+// - plain string
+// - A nested buffer (recursive arrays of strings and Promises)
+// - An async buffer (a Promise that resolves to a buffer)
+// Promises are kept in place instead of being awaited eagerly, so that a
+// streaming renderer can flush everything that precedes them right away.
+export interface SSRBuffer extends Array<SSRBufferItem> {
+  hasAsync?: boolean
+}
+export type SSRBufferItem = string | SSRBuffer | Promise<SSRBuffer>
+
+export type PushFn = (item: SSRBufferItem) => void
+
+export interface SSRContext {
+  [key: string]: any
+  // rendered portal content, keyed by portal target selector.
+  // populated by the render call.
+  portals?: Record<string, string>
+  __portalBuffers?: Record<string, SSRBuffer>
+  // store for caching the rendered HTML of components that implement the
+  // `serverCacheKey` option.
+  cache?: SSRCache
+}
+
+export function createBuffer() {
+  let appendable = false
+  const buffer: SSRBuffer = []
+  return {
+    getBuffer(): SSRBuffer {
+      return buffer
+    },
+    push(item: SSRBufferItem) {
+      const isStringItem = isString(item)
+      if (appendable && isStringItem) {
+        buffer[buffer.length - 1] += item as string
+      } else {
+        buffer.push(item)
+      }
+      appendable = isStringItem
+      if (isPromise(item)) {
+        // the buffer is unrolled in order, so a rejected promise may only be
+        // awaited once the async items before it have resolved. Mark it as
+        // handled right away so it is not reported as an unhandled rejection
+        // in the meantime - the error still surfaces when it is awaited.
+        item.catch(NOOP)
+      }
+      if (isPromise(item) || (isArray(item) && (item as SSRBuffer).hasAsync)) {
+        // If the current component's buffer contains any Promise from async
+        // children, then it must be unrolled asynchronously. Otherwise this
+        // is a component that is fully sync so it can be unrolled in one go.
+        buffer.hasAsync = true
+      }
+    }
+  }
+}
+
+export async function unrollBuffer(buffer: SSRBuffer): Promise<string> {
+  if (!buffer.hasAsync) {
+    return unrollBufferSync(buffer)
+  }
+  let ret = ''
+  for (let i = 0; i < buffer.length; i++) {
+    let item = buffer[i]
+    if (isPromise(item)) {
+      item = await item
+    }
+    if (isString(item)) {
+      ret += item
+    } else {
+      ret += await unrollBuffer(item)
+    }
+  }
+  return ret
+}
+
+export function unrollBufferSync(buffer: SSRBuffer): string {
+  let ret = ''
+  for (let i = 0; i < buffer.length; i++) {
+    const item = buffer[i]
+    if (isString(item)) {
+      ret += item
+    } else {
+      // since this is a sync buffer, child buffers are never promises
+      ret += unrollBufferSync(item as SSRBuffer)
+    }
+  }
+  return ret
+}
+
+// overload 1: render a vnode tree
+export function renderToString(
+  vnode: VNode,
+  context?: SSRContext
+): Promise<string>
+
+// overload 2: render an app with a root component, mirroring `app.mount()`
+export function renderToString(
+  app: App,
+  rootComponent: Component,
+  rootProps?: Record<string, unknown> | null,
+  context?: SSRContext
+): Promise<string>
+
+export async function renderToString(
+  input: App | VNode,
+  rootComponentOrContext?: Component | SSRContext,
+  rootProps?: Record<string, unknown> | null,
+  context: SSRContext = {}
+): Promise<string> {
+  let vnode: VNode
+  if (isVNode(input)) {
+    vnode = input
+    context = (rootComponentOrContext as SSRContext) || context
+  } else {
+    vnode = createAppVNode(
+      input,
+      rootComponentOrContext as Component,
+      rootProps
+    )
+  }
+  const html = await unrollBuffer(renderRootVNode(vnode, context))
+  await resolvePortals(context)
+  return html
+}
+
+export function createAppVNode(
+  app: App,
+  rootComponent: Component,
+  rootProps?: Record<string, unknown> | null
+): VNode {
+  const vnode = createVNode(rootComponent, rootProps)
+  // store app context on the root VNode, same as app.mount() does.
+  vnode.appContext = app._context
+  return vnode
+}
+
+export function renderRootVNode(vnode: VNode, context: SSRContext): SSRBuffer {
+  const { getBuffer, push } = createBuffer()
+  renderVNode(push, normalizeVNode(vnode), null, context)
+  return getBuffer()
+}
+
+export function renderComponentVNode(
+  vnode: VNode,
+  parentComponent: ComponentInternalInstance | null,
+  context: SSRContext
+): SSRBuffer | Promise<SSRBuffer> {
+  const instance = createComponentInstance(vnode, parentComponent)
+  // same as setupComponent(), split so that the cache key is computed from
+  // the resolved props and setup() is skipped on a cache hit.
+  resolvePropsAndSlots(instance)
+  const cacheKey = context.cache ? getCacheKey(instance) : null
+  if (cacheKey !== null) {
+    return renderWithCache(context.cache!, cacheKey, () =>
+      renderComponent(instance, context)
+    )
+  }
+  return renderComponent(instance, context)
+}
+
+function renderComponent(
+  instance: ComponentInternalInstance,
+  context: SSRContext
+): SSRBuffer | Promise<SSRBuffer> {
+  if (instance.vnode.shapeFlag & ShapeFlags.STATEFUL_COMPONENT) {
+    setupStatefulComponent(instance, null)
+  }
+  if (instance.asyncDep !== null) {
+    // async setup(): only this component's subtree waits for the result, the
+    // rest of the tree keeps rendering.
+    return instance.asyncDep
+      .catch(err => {
+        handleError(err, instance, ErrorCodes.SETUP_FUNCTION)
+      })
+      .then(asyncSetupResult => {
+        instance.asyncResolved = true
+        handleSetupResult(instance, asyncSetupResult, null)
+        return prefetchAndRenderSubTree(instance, context)
+      })
+  } else {
+    return prefetchAndRenderSubTree(instance, context)
+  }
+}
+
+function prefetchAndRenderSubTree(
+  instance: ComponentInternalInstance,
+  context: SSRContext
+): SSRBuffer | Promise<SSRBuffer> {
+  const prefetches = instance.sp
+  if (prefetches === null) {
+    return renderComponentSubTree(instance, context)
+  }
+  // same as async setup(), only this component's subtree waits for its
+  // serverPrefetch hooks. A failed hook is reported and the subtree is still
+  // rendered with whatever state is available.
+  return Promise.all(
+    prefetches.map(prefetch =>
+      Promise.resolve()
+        .then(() => prefetch())
+        .catch(err => {
+          handleError(err, instance, ErrorCodes.SERVER_PREFETCH)
+        })
+    )
+  ).then(() => renderComponentSubTree(instance, context))
+}
+
+function renderComponentSubTree(
+  instance: ComponentInternalInstance,
+  context: SSRContext
+): SSRBuffer {
+  const { getBuffer, push } = createBuffer()
+  const comp = instance.type as ComponentOptions
+  if (comp.ssrRender) {
+    // template compiled with `ssr: true`: static parts are pushed as strings
+    // directly and no vnode tree is created for them.
+    instanceContextMap.set(instance, context)
+    setCurrentRenderingInstance(instance)
+    try {
+      comp.ssrRender(instance.renderProxy, push, instance)
+    } catch (err) {
+      handleError(err, instance, ErrorCodes.RENDER_FUNCTION)
+    } finally {
+      // handleError() rethrows unhandled errors
+      setCurrentRenderingInstance(null)
+    }
+  } else {
+    const subTree = (instance.subTree = renderComponentRoot(instance))
+    renderVNode(push, subTree, instance, context)
+  }
+  return getBuffer()
+}
+
+// used by compiled `ssrRender` functions to render components, slots and other
+// dynamic vnodes.
+export function ssrRenderVNode(
+  push: PushFn,
+  vnode: VNodeChildren[number],
+  parentComponent: ComponentInternalInstance
+) {
+  renderVNode(
+    push,
+    normalizeVNode(vnode),
+    parentComponent,
+    instanceContextMap.get(parentComponent) || {}
+  )
+}
+
+export function renderVNode(
+  push: PushFn,
+  vnode: VNode,
+  parentComponent: ComponentInternalInstance | null,
+  context: SSRContext
+) {
+  const { type, shapeFlag, children } = vnode
+  switch (type) {
+    case Text:
+      push(escapeHtml(children as string))
+      break
+    case Comment:
+      push(children ? `<!--${children}-->` : `<!---->`)
+      break
+    case Fragment:
+      // the boundaries of a fragment become its anchors on the client. They
+      // are marked apart so that hydration can find the end of a fragment
+      // that contains nested ones.
+      push(`<!--[-->`)
+      renderVNodeChildren(
+        push,
+        children as VNodeChildren,
+        parentComponent,
+        context
+      )
+      push(`<!--]-->`)
+      break
+    case Portal:
+      renderPortal(push, vnode, parentComponent, context)
+      break
+    default:
+      if (shapeFlag & ShapeFlags.ELEMENT) {
+        renderElement(push, vnode, parentComponent, context)
+      } else if (shapeFlag & ShapeFlags.COMPONENT) {
+        push(renderComponentVNode(vnode, parentComponent, context))
+      } else if (shapeFlag & ShapeFlags.SUSPENSE) {
+        renderSuspense(push, vnode, parentComponent, context)
+      } else if (__DEV__) {
+        warn(
+          '[@vue/server-renderer] Invalid VNode type:',
+          type,
+          `(${typeof type})`
+        )
+      }
+  }
+}
+
+export function renderVNodeChildren(
+  push: PushFn,
+  children: VNodeChildren,
+  parentComponent: ComponentInternalInstance | null,
+  context: SSRContext
+) {
+  for (let i = 0; i < children.length; i++) {
+    renderVNode(push, normalizeVNode(children[i]), parentComponent, context)
+  }
+}
+
+function renderElement(
+  push: PushFn,
+  vnode: VNode,
+  parentComponent: ComponentInternalInstance | null,
+  context: SSRContext
+) {
+  const tag = vnode.type as string
+  const { props, children, shapeFlag } = vnode
+  let openTag = `<${tag}`
+  if (props !== null) {
+    openTag += ssrRenderAttrs(props, tag)
+  }
+  push(openTag + `>`)
+  if (!isVoidTag(tag)) {
+    let hasChildrenOverride = false
+    if (props !== null) {
+      if (props.innerHTML != null) {
+        hasChildrenOverride = true
+        push(props.innerHTML)
+      } else if (props.textContent != null) {
+        hasChildrenOverride = true
+        push(escapeHtml(props.textContent))
+      } else if (tag === 'textarea' && props.value != null) {
+        hasChildrenOverride = true
+        push(escapeHtml(props.value))
+      }
+    }
+    if (!hasChildrenOverride) {
+      if (shapeFlag & ShapeFlags.TEXT_CHILDREN) {
+        push(escapeHtml(children as string))
+      } else if (shapeFlag & ShapeFlags.ARRAY_CHILDREN) {
+        renderVNodeChildren(
+          push,
+          children as VNodeChildren,
+          parentComponent,
+          context
+        )
+      }
+    }
+    push(`</${tag}>`)
+  }
+}
+
+function renderPortal(
+  push: PushFn,
+  vnode: VNode,
+  parentComponent: ComponentInternalInstance | null,
+  context: SSRContext
+) {
+  const target = vnode.props && vnode.props.target
+  if (!isString(target)) {
+    if (__DEV__) {
+      warn(
+        `[@vue/server-renderer] Portal target must be a query selector string ` +
+          `during server-side rendering.`
+      )
+    }
+    return
+  }
+
+  const { getBuffer, push: portalPush } = createBuffer()
+  const { shapeFlag, children } = vnode
+  if (shapeFlag & ShapeFlags.TEXT_CHILDREN) {
+    portalPush(escapeHtml(children as string))
+  } else if (shapeFlag & ShapeFlags.ARRAY_CHILDREN) {
+    renderVNodeChildren(
+      portalPush,
+      children as VNodeChildren,
+      parentComponent,
+      context
+    )
+  }
+  const portalBuffers =
+    context.__portalBuffers || (context.__portalBuffers = {})
+  const targetBuffer = portalBuffers[target] || (portalBuffers[target] = [])
+  const portalBuffer = getBuffer()
+  targetBuffer.push(portalBuffer)
+  if (portalBuffer.hasAsync) {
+    targetBuffer.hasAsync = true
+  }
+
+  // same as the client renderer, the portal leaves an empty placeholder node
+  // in its original position.
+  push(`<!---->`)
+}
+
+function renderSuspense(
+  push: PushFn,
+  vnode: VNode,
+  parentComponent: ComponentInternalInstance | null,
+  context: SSRContext
+) {
+  // async deps are awaited on the server, so only the default content is
+  // rendered and the fallback is never needed.
+  const { shapeFlag, children } = vnode
+  let content: unknown = children
+  if (shapeFlag & ShapeFlags.SLOTS_CHILDREN) {
+    content = (children as Record<string, unknown>).default
+  }
+  renderVNode(
+    push,
+    normalizeVNode(
+      isFunction(content) ? content() : (content as VNodeChildren)
+    ),
+    parentComponent,
+    context
+  )
+}
+
+export async function resolvePortals(context: SSRContext) {
+  const portalBuffers = context.__portalBuffers
+  if (portalBuffers) {
+    const portals = context.portals || (context.portals = {})
+    for (const target in portalBuffers) {
+      // note: it's OK to await sequentially here because the Promises were
+      // created eagerly in parallel.
+      portals[target] = await unrollBuffer(portalBuffers[target])
+    }
+    delete context.__portalBuffers
+  }
+}
@@ -0,0 +1,72 @@
+import { toRaw } from '@vue/runtime-core'
+import {
+  isPlainObject,
+  SSR_STATE_TYPE_KEY,
+  SSR_STATE_ESCAPED_KEY_RE
+} from '@vue/shared'
+
+// characters that could terminate the surrounding <script> or are not valid
+// in JavaScript string literals in older engines.
+const unsafeCharsRE = /[<>\/\u2028\u2029]/g
+const unsafeCharMap: Record<string, string> = {
+  '<': '\\u003C',
+  '>': '\\u003E',
+  '/': '\\u002F',
+  '\u2028': '\\u2028',
+  '\u2029': '\\u2029'
+}
+
+function replacer(this: any, key: string, value: unknown): unknown {
+  // Date values have already been converted by toJSON(), so check the
+  // original property value instead.
+  const raw = toRaw(this[key])
+  if (raw instanceof Date) {
+    return { [SSR_STATE_TYPE_KEY]: 'Date', value: raw.toISOString() }
+  } else if (raw instanceof Map) {
+    return { [SSR_STATE_TYPE_KEY]: 'Map', value: Array.from(raw) }
+  } else if (raw instanceof Set) {
+    return { [SSR_STATE_TYPE_KEY]: 'Set', value: Array.from(raw) }
+  } else if (isPlainObject(value)) {
+    return escapeKeys(value as Record<string, unknown>)
+  }
+  return value
+}
+
+// user data can't be mistaken for a tagged value on the client
+function escapeKeys(obj: Record<string, unknown>): object {
+  let escaped: Record<string, unknown> | undefined
+  for (const key in obj) {
+    if (SSR_STATE_ESCAPED_KEY_RE.test(key)) {
+      escaped = {}
+      break
+    }
+  }
+  if (!escaped) {
+    return obj
+  }
+  for (const key in obj) {
+    escaped[SSR_STATE_ESCAPED_KEY_RE.test(key) ? key + '_' : key] = obj[key]
+  }
+  return escaped
+}
+
+// Serialize state (e.g. reactive objects created during render) into a JSON
+// string that can be safely embedded into an inline <script>. The output is
+// also a valid JavaScript expression. Use `hydrateState()` on the client to
+// restore it.
+export function serializeState(state: unknown): string {
+  const json = JSON.stringify(state, replacer)
+  return json === undefined
+    ? `null`
+    : json.replace(unsafeCharsRE, c => unsafeCharMap[c])
+}
+
+// Render a <script> tag assigning the serialized state to `window[key]`.
+export function renderState(
+  state: unknown,
+  key: string = '__INITIAL_STATE__'
+): string {
+  return `<script>window[${serializeState(key)}]=${serializeState(
+    state
+  )}</script>`
+}
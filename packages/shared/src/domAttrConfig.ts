@@ -0,0 +1,43 @@
+import { makeMap } from './makeMap'
+
+// On the client we only need to offer special cases for boolean attributes that
+// have different names from their corresponding dom properties:
+// - itemscope -> N/A
+// - allowfullscreen -> allowFullscreen
+// - formnovalidate -> formNoValidate
+// - ismap -> isMap
+// - nomodule -> noModule
+// - novalidate -> noValidate
+// - readonly -> readOnly
+const specialBooleanAttrs = `itemscope,allowfullscreen,formnovalidate,ismap,nomodule,novalidate,readonly`
+
+// The full list is needed during SSR to produce the correct initial markup.
+export const isBooleanAttr = /*#__PURE__*/ makeMap(
+  specialBooleanAttrs +
+    `,async,autofocus,autoplay,controls,default,defer,disabled,hidden,` +
+    `loop,open,required,reversed,scoped,seamless,` +
+    `checked,muted,multiple,selected`
+)
+
+const unsafeAttrCharRE = /[>/="'\u0009\u000a\u000c ]/
+const attrValidationCache: Record<string, boolean> = {}
+
+export function isSSRSafeAttrName(name: string): boolean {
+  if (attrValidationCache.hasOwnProperty(name)) {
+    return attrValidationCache[name]
+  }
+  const isUnsafe = unsafeAttrCharRE.test(name)
+  if (isUnsafe) {
+    console.error(`unsafe attribute name: ${name}`)
+  }
+  return (attrValidationCache[name] = !isUnsafe)
+}
+
+// DOM properties that are set by the client renderer under a different name
+// than the attribute they reflect to.
+export const propsToAttrMap: Record<string, string | undefined> = {
+  acceptCharset: 'accept-charset',
+  className: 'class',
+  htmlFor: 'for',
+  httpEquiv: 'http-equiv'
+}
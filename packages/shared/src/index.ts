@@ -3,6 +3,8 @@ import { makeMap } from './makeMap'
 export { makeMap }
 export * from './patchFlags'
 export { isGloballyWhitelisted } from './globalsWhitelist'
+export * from './domAttrConfig'
+export { escapeHtml } from './escapeHtml'
 
 export const EMPTY_OBJ: { readonly [key: string]: any } = __DEV__
   ? Object.freeze({})
@@ -57,6 +59,13 @@ export function toRawType(value: unknown): string {
 export const isPlainObject = (val: unknown): val is object =>
   toTypeString(val) === '[object Object]'
 
+// key used to tag Map, Set and Date values in serialized SSR state, so that
+// they can be revived on the client.
+export const SSR_STATE_TYPE_KEY = '__v_ssr'
+// object keys of the state that could be mistaken for the tag: `__v_ssr`
+// followed by any number of `_`. They are serialized with an extra `_`.
+export const SSR_STATE_ESCAPED_KEY_RE = /^__v_ssr_*$/
+
 export const isReservedProp = /*#__PURE__*/ makeMap(
   'key,ref,' +
     'onVnodeBeforeMount,onVnodeMounted,' +
@@ -81,3 +90,18 @@ export const capitalize = (str: string): string => {
 // compare whether a value has changed, accounting for NaN.
 export const hasChanged = (value: any, oldValue: any): boolean =>
   value !== oldValue && (value === value || oldValue === oldValue)
+
+let _globalThis: any
+export const getGlobalThis = (): any => {
+  return (
+    _globalThis ||
+    (_globalThis =
+      typeof self !== 'undefined'
+        ? self
+        : typeof window !== 'undefined'
+          ? window
+          : typeof global !== 'undefined'
+            ? global
+            : {})
+  )
+}